@@ -89,7 +89,7 @@ async function testEditSession() {
   console.log(`  Has manual edits: ${summary.hasManualEdits}`);
 
   // Preview the AI prompt
-  const prompts = session.previewPrompt();
+  const prompts = await session.previewPrompt();
   console.log('\nAI Prompt Preview for description:');
   console.log('---');
   console.log(prompts.description?.slice(0, 1000) || '(no prompt)');
@@ -180,7 +180,7 @@ async function testChildEntity() {
       stopAtPi: TEST_PI, // Stop at the collection level
     });
 
-    const prompts = childSession.previewPrompt();
+    const prompts = await childSession.previewPrompt();
     console.log('\nCascade prompt preview:');
     console.log(prompts.description?.slice(0, 800) || '(no prompt)');
   } else {
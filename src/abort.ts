@@ -0,0 +1,81 @@
+/**
+ * Cancellation helpers shared by ArkeClient and EditSession
+ */
+
+import { CancelledError } from './types';
+
+/**
+ * Throw CancelledError if the signal has already been aborted
+ */
+export function throwIfAborted(signal?: AbortSignal): void {
+  if (signal?.aborted) {
+    throw new CancelledError(signal.reason);
+  }
+}
+
+/**
+ * Whether an error was caused by an aborted request
+ */
+export function isAbortError(error: unknown): boolean {
+  return (
+    error instanceof CancelledError ||
+    (typeof error === 'object' && error !== null && (error as Error).name === 'AbortError')
+  );
+}
+
+/**
+ * Sleep for a given number of milliseconds, rejecting with CancelledError on abort
+ */
+export function sleep(ms: number, signal?: AbortSignal): Promise<void> {
+  return new Promise((resolve, reject) => {
+    if (signal?.aborted) {
+      reject(new CancelledError(signal.reason));
+      return;
+    }
+
+    const onAbort = () => {
+      clearTimeout(timer);
+      reject(new CancelledError(signal!.reason));
+    };
+    const timer = setTimeout(() => {
+      signal?.removeEventListener('abort', onAbort);
+      resolve();
+    }, ms);
+
+    signal?.addEventListener('abort', onAbort, { once: true });
+  });
+}
+
+/**
+ * Combine signals into one that aborts when any of them does.
+ * Call dispose() once done to detach the listeners.
+ */
+export function linkSignals(...signals: Array<AbortSignal | undefined>): {
+  signal: AbortSignal;
+  abort: (reason?: unknown) => void;
+  dispose: () => void;
+} {
+  const controller = new AbortController();
+  const listeners: Array<[AbortSignal, () => void]> = [];
+
+  for (const signal of signals) {
+    if (!signal) continue;
+    if (signal.aborted) {
+      controller.abort(signal.reason);
+      break;
+    }
+    const onAbort = () => controller.abort(signal.reason);
+    signal.addEventListener('abort', onAbort, { once: true });
+    listeners.push([signal, onAbort]);
+  }
+
+  return {
+    signal: controller.signal,
+    abort: (reason) => controller.abort(reason),
+    dispose: () => {
+      for (const [signal, onAbort] of listeners) {
+        signal.removeEventListener('abort', onAbort);
+      }
+    },
+  };
+}
@@ -0,0 +1,103 @@
+import { describe, expect, it } from 'vitest';
+import { ContentCache, IndexedDBCacheStorage } from './cache';
+
+interface FakeRequest {
+  result?: unknown;
+  error?: unknown;
+  onsuccess?: () => void;
+  onerror?: () => void;
+  onupgradeneeded?: () => void;
+}
+
+/**
+ * Minimal IndexedDB whose first `failedOpens` opens fail, and whose writes
+ * only land when their transaction completes
+ */
+function fakeIndexedDB(failedOpens: number) {
+  const committed = new Map<string, unknown>();
+  let opens = 0;
+
+  const db = {
+    createObjectStore: () => undefined,
+    transaction: () => {
+      const pending: Array<() => void> = [];
+      const transaction = {
+        oncomplete: null as (() => void) | null,
+        objectStore: () => ({
+          get: (key: string) => respond(committed.get(key)),
+          put: (value: unknown, key: string) => {
+            pending.push(() => committed.set(key, value));
+            return respond(undefined);
+          },
+        }),
+      };
+      const respond = (result: unknown) => {
+        const request: FakeRequest = { result };
+        setTimeout(() => {
+          request.onsuccess?.();
+          setTimeout(() => {
+            pending.forEach((write) => write());
+            transaction.oncomplete?.();
+          });
+        });
+        return request;
+      };
+      return transaction;
+    },
+  };
+
+  const factory = {
+    open: () => {
+      const request: FakeRequest = {};
+      const failed = ++opens <= failedOpens;
+      setTimeout(() => {
+        if (failed) {
+          request.error = new Error('Upgrade blocked');
+          request.onerror?.();
+        } else {
+          request.result = db;
+          request.onupgradeneeded?.();
+          request.onsuccess?.();
+        }
+      });
+      return request;
+    },
+  };
+
+  return { factory: factory as unknown as IDBFactory, committed };
+}
+
+describe('IndexedDBCacheStorage', () => {
+  it('resolves writes once they are committed', async () => {
+    const { factory, committed } = fakeIndexedDB(0);
+    const storage = new IndexedDBCacheStorage({ factory });
+
+    await storage.set('bafyabc', 'content');
+    expect(committed.get('bafyabc')).toBe('content');
+    expect(await storage.get('bafyabc')).toBe('content');
+  });
+
+  it('opens the database again after a failed open', async () => {
+    const { factory } = fakeIndexedDB(1);
+    const storage = new IndexedDBCacheStorage({ factory });
+
+    await expect(storage.set('bafyabc', 'content')).rejects.toThrow('Upgrade blocked');
+    await storage.set('bafyabc', 'content');
+    expect(await storage.get('bafyabc')).toBe('content');
+  });
+});
+
+describe('ContentCache', () => {
+  it('evicts the least recently used entries beyond maxEntries', async () => {
+    const cache = new ContentCache({ maxEntries: 2 });
+    await cache.set('bafya', 'a');
+    await cache.set('bafyb', 'b');
+    expect(await cache.get('bafya')).toBe('a');
+    await cache.set('bafyc', 'c');
+
+    expect(await cache.get('bafyb')).toBeUndefined();
+    expect(await cache.get('bafya')).toBe('a');
+    expect(await cache.get('bafyc')).toBe('c');
+    expect(cache.getStats()).toMatchObject({ hits: 3, memoryHits: 3, misses: 1, evictions: 1, entries: 2 });
+  });
+});
@@ -0,0 +1,179 @@
+/**
+ * ContentCache - CID-keyed cache for immutable content
+ */
+
+import type { CacheStats, ContentCacheOptions, ContentCacheStorage } from './types';
+
+const DEFAULT_MAX_ENTRIES = 500;
+
+export class ContentCache {
+  private memory = new Map<string, string>();
+  private maxEntries: number;
+  private storage?: ContentCacheStorage;
+  private stats: CacheStats = {
+    hits: 0,
+    misses: 0,
+    memoryHits: 0,
+    storageHits: 0,
+    evictions: 0,
+    storageErrors: 0,
+    entries: 0,
+  };
+
+  constructor(options?: ContentCacheOptions) {
+    this.maxEntries = options?.maxEntries ?? DEFAULT_MAX_ENTRIES;
+    this.storage = options?.storage;
+  }
+
+  /**
+   * Look up content by CID: memory first, then persistent storage
+   */
+  async get(cid: string): Promise<string | undefined> {
+    const cached = this.memory.get(cid);
+    if (cached !== undefined) {
+      // Refresh LRU position
+      this.memory.delete(cid);
+      this.memory.set(cid, cached);
+      this.stats.hits++;
+      this.stats.memoryHits++;
+      return cached;
+    }
+
+    if (this.storage) {
+      try {
+        const stored = await this.storage.get(cid);
+        if (stored !== undefined) {
+          this.remember(cid, stored);
+          this.stats.hits++;
+          this.stats.storageHits++;
+          return stored;
+        }
+      } catch {
+        // Persistent tier is best-effort
+        this.stats.storageErrors++;
+      }
+    }
+
+    this.stats.misses++;
+    return undefined;
+  }
+
+  /**
+   * Store content under its CID in every tier
+   */
+  async set(cid: string, content: string): Promise<void> {
+    this.remember(cid, content);
+
+    if (this.storage) {
+      try {
+        await this.storage.set(cid, content);
+      } catch {
+        this.stats.storageErrors++;
+      }
+    }
+  }
+
+  /**
+   * Remove all entries from every tier
+   */
+  async clear(): Promise<void> {
+    this.memory.clear();
+    this.stats.entries = 0;
+    await this.storage?.clear?.();
+  }
+
+  /**
+   * Hit/miss counters and current memory usage
+   */
+  getStats(): CacheStats {
+    return { ...this.stats };
+  }
+
+  private remember(cid: string, content: string): void {
+    this.memory.delete(cid);
+    this.memory.set(cid, content);
+
+    // Evict least recently used entries
+    while (this.memory.size > this.maxEntries) {
+      const oldest = this.memory.keys().next().value as string;
+      this.memory.delete(oldest);
+      this.stats.evictions++;
+    }
+
+    this.stats.entries = this.memory.size;
+  }
+}
+
+/**
+ * Persistent cache storage backed by IndexedDB (browsers)
+ */
+export class IndexedDBCacheStorage implements ContentCacheStorage {
+  private db: Promise<IDBDatabase> | null = null;
+  private dbName: string;
+  private storeName: string;
+  private factory?: IDBFactory;
+
+  constructor(options?: { dbName?: string; storeName?: string; factory?: IDBFactory }) {
+    this.dbName = options?.dbName ?? 'arke-edit-sdk';
+    this.storeName = options?.storeName ?? 'content';
+    this.factory = options?.factory;
+  }
+
+  async get(cid: string): Promise<string | undefined> {
+    const result = await this.run('readonly', (store) => store.get(cid));
+    return typeof result === 'string' ? result : undefined;
+  }
+
+  async set(cid: string, content: string): Promise<void> {
+    await this.run('readwrite', (store) => store.put(content, cid));
+  }
+
+  async delete(cid: string): Promise<void> {
+    await this.run('readwrite', (store) => store.delete(cid));
+  }
+
+  async clear(): Promise<void> {
+    await this.run('readwrite', (store) => store.clear());
+  }
+
+  private open(): Promise<IDBDatabase> {
+    if (!this.db) {
+      this.db = new Promise((resolve, reject) => {
+        const factory = this.factory ?? globalThis.indexedDB;
+        if (!factory) {
+          reject(new Error('IndexedDB is not available in this environment'));
+          return;
+        }
+        const request = factory.open(this.dbName, 1);
+        request.onupgradeneeded = () => {
+          request.result.createObjectStore(this.storeName);
+        };
+        request.onsuccess = () => resolve(request.result);
+        request.onerror = () => reject(request.error);
+      });
+      // Let the next call try again instead of failing for good
+      this.db.catch(() => {
+        this.db = null;
+      });
+    }
+    return this.db;
+  }
+
+  /**
+   * Run a request in its own transaction, resolving once the transaction
+   * has committed
+   */
+  private async run<T>(
+    mode: IDBTransactionMode,
+    operation: (store: IDBObjectStore) => IDBRequest<T>
+  ): Promise<T> {
+    const db = await this.open();
+    return new Promise((resolve, reject) => {
+      const transaction = db.transaction(this.storeName, mode);
+      const request = operation(transaction.objectStore(this.storeName));
+      transaction.oncomplete = () => resolve(request.result);
+      transaction.onerror = () => reject(transaction.error ?? request.error);
+      transaction.onabort = () => reject(transaction.error ?? new Error('IndexedDB transaction aborted'));
+    });
+  }
+}
@@ -0,0 +1,327 @@
+import { afterEach, beforeEach, describe, expect, it, vi } from 'vitest';
+import { ArkeClient } from './client';
+import { InMemoryArkeBackend } from './testing';
+import {
+  AuthenticationError,
+  NetworkError,
+  PayloadTooLargeError,
+  ReprocessError,
+  RateLimitError,
+  ServiceUnavailableError,
+  type ArkeTransport,
+} from './types';
+
+let backend: InMemoryArkeBackend;
+
+beforeEach(() => {
+  backend = new InMemoryArkeBackend();
+  backend.addEntity({ pi: 'COLLECTION', components: { 'description.md': 'A collection.' } });
+});
+
+describe('authentication', () => {
+  it('refreshes an expired token once and retries', async () => {
+    let serverToken = 'token-1';
+    let clientToken = 'token-1';
+    let refreshes = 0;
+    const secured = new InMemoryArkeBackend({ authorize: (token) => (token === serverToken ? undefined : 401) });
+    secured.addEntity({ pi: 'SECURE' });
+    const client = new ArkeClient({
+      ...secured.clientConfig,
+      authToken: async () => clientToken,
+      onUnauthorized: () => {
+        refreshes++;
+        clientToken = serverToken;
+      },
+    });
+
+    await client.getEntity('SECURE');
+    serverToken = 'token-2';
+    await client.getEntity('SECURE');
+    expect(refreshes).toBe(1);
+  });
+
+  it('raises AuthenticationError on 401 without a refresh handler', async () => {
+    const secured = new InMemoryArkeBackend({ authorize: (token) => (token === 'valid' ? undefined : 401) });
+    secured.addEntity({ pi: 'SECURE' });
+    const client = new ArkeClient({ ...secured.clientConfig, authToken: 'stale' });
+    await expect(client.getEntity('SECURE')).rejects.toBeInstanceOf(AuthenticationError);
+  });
+});
+
+describe('retry policy', () => {
+  const reprocessCalls = () => backend.requests.filter((r) => r.url.endsWith('/api/reprocess')).length;
+
+  it('retries idempotent requests through transient failures', async () => {
+    const client = new ArkeClient({ ...backend.clientConfig, retry: { initialDelayMs: 1 } });
+    backend.failNext({ method: 'GET', path: '/entities/COLLECTION', status: 503, headers: { 'Retry-After': '0' } });
+    backend.failNext({ method: 'GET', path: '/entities/COLLECTION', status: 502 });
+    expect((await client.getEntity('COLLECTION')).pi).toBe('COLLECTION');
+  });
+
+  it('gives up when Retry-After exceeds the maximum delay', async () => {
+    const client = new ArkeClient({ ...backend.clientConfig, retry: { initialDelayMs: 1, maxDelayMs: 1000 } });
+    backend.failNext({ method: 'GET', path: '/entities/COLLECTION', status: 503, headers: { 'Retry-After': '86400' } });
+
+    const error = await client.getEntity('COLLECTION').catch((e: unknown) => e);
+    expect(error).toBeInstanceOf(ServiceUnavailableError);
+    expect((error as ServiceUnavailableError).retryAfterMs).toBe(86400000);
+    expect(backend.requests.filter((r) => r.url.endsWith('/entities/COLLECTION'))).toHaveLength(1);
+  });
+
+  it('does not retry reprocess after an ambiguous 502', async () => {
+    const client = new ArkeClient({ ...backend.clientConfig, retry: { initialDelayMs: 1 } });
+    backend.failNext({ method: 'POST', path: '/api/reprocess', status: 502 });
+    await expect(
+      client.reprocess({ pi: 'COLLECTION', phases: ['description'], cascade: false })
+    ).rejects.toBeInstanceOf(ServiceUnavailableError);
+    expect(reprocessCalls()).toBe(1);
+  });
+});
+
+describe('typed HTTP errors', () => {
+  it('carries request metadata on RateLimitError', async () => {
+    const client = new ArkeClient({ ...backend.clientConfig, retry: false });
+    backend.failNext({
+      path: '/entities/COLLECTION',
+      status: 429,
+      headers: { 'Retry-After': '30', 'x-request-id': 'req-123' },
+    });
+
+    const error = await client.getEntity('COLLECTION').catch((e: unknown) => e);
+    expect(error).toBeInstanceOf(RateLimitError);
+    expect(error).toMatchObject({ retryAfterMs: 30000, requestId: 'req-123', method: 'GET' });
+    expect((error as RateLimitError).url).toMatch(/\/entities\/COLLECTION$/);
+  });
+
+  it('wraps network failures that outlast the retries in NetworkError', async () => {
+    let attempts = 0;
+    const client = new ArkeClient({
+      ...backend.clientConfig,
+      retry: { maxRetries: 2, initialDelayMs: 1 },
+      transport: () => {
+        attempts++;
+        return Promise.reject(new TypeError('fetch failed'));
+      },
+    });
+
+    const error = await client.getEntity('COLLECTION').catch((e: unknown) => e);
+    expect(attempts).toBe(3);
+    expect(error).toBeInstanceOf(NetworkError);
+    expect(error).toMatchObject({ code: 'NETWORK_ERROR', method: 'GET', operation: 'getEntity' });
+    expect((error as NetworkError).message).toContain('fetch failed');
+    expect((error as NetworkError).url).toMatch(/\/entities\/COLLECTION$/);
+  });
+
+  it('carries request metadata on ReprocessError', async () => {
+    const client = new ArkeClient({ ...backend.clientConfig, retry: false });
+    backend.failNext({ path: '/api/reprocess', status: 400, body: { message: 'Unknown phase' } });
+
+    const error = await client
+      .reprocess({ pi: 'COLLECTION', phases: ['description'], cascade: false })
+      .catch((e: unknown) => e);
+    expect(error).toBeInstanceOf(ReprocessError);
+    expect(error).toMatchObject({ message: 'Unknown phase', status: 400, method: 'POST' });
+    expect((error as ReprocessError).url).toMatch(/\/api\/reprocess$/);
+  });
+
+  it('constructs ReprocessError without request metadata', () => {
+    const error = new ReprocessError('Batch rejected', 'batch-1');
+    expect(error).toMatchObject({ code: 'REPROCESS_ERROR', batchId: 'batch-1' });
+    expect(error.url).toBeUndefined();
+    expect(error.method).toBeUndefined();
+  });
+
+  it('includes a body excerpt on PayloadTooLargeError', async () => {
+    const client = new ArkeClient({ ...backend.clientConfig, retry: false });
+    backend.failNext({ path: '/upload', status: 413, body: { error: 'File exceeds 10MB' } });
+
+    const error = await client.uploadContent('x', 'big.txt').catch((e: unknown) => e);
+    expect(error).toBeInstanceOf(PayloadTooLargeError);
+    expect((error as PayloadTooLargeError).responseBody).toContain('10MB');
+  });
+});
+
+describe('interceptors', () => {
+  function recordingTransport() {
+    const sent: { url: string; headers: Record<string, string> }[] = [];
+    const transport: ArkeTransport = {
+      request: (url, init) => {
+        sent.push({ url, headers: { ...(init.headers as Record<string, string>) } });
+        return backend.fetch(url, init);
+      },
+    };
+    return { sent, transport };
+  }
+
+  it('sends headers mutated by a request interceptor', async () => {
+    const { sent, transport } = recordingTransport();
+    const client = new ArkeClient({
+      ...backend.clientConfig,
+      transport,
+      authToken: 'secret',
+      interceptors: {
+        request: [
+          (request) => {
+            request.headers['x-trace-id'] = `${request.operation}-1`;
+          },
+        ],
+      },
+    });
+
+    await client.getEntity('COLLECTION');
+    expect(sent[0].headers).toMatchObject({ 'x-trace-id': 'getEntity-1', Authorization: 'Bearer secret' });
+  });
+
+  it('sends the request returned by a request interceptor', async () => {
+    backend.addEntity({ pi: 'MIRROR', components: { 'description.md': 'A mirror.' } });
+    const { sent, transport } = recordingTransport();
+    const client = new ArkeClient({
+      ...backend.clientConfig,
+      transport,
+      interceptors: {
+        request: [(request) => ({ ...request, url: request.url.replace('COLLECTION', 'MIRROR') })],
+      },
+    });
+
+    expect((await client.getEntity('COLLECTION')).pi).toBe('MIRROR');
+    expect(sent[0].url).toMatch(/\/entities\/MIRROR$/);
+  });
+
+  it('uses the response returned by a response interceptor', async () => {
+    const seen: string[] = [];
+    const client = new ArkeClient({
+      ...backend.clientConfig,
+      retry: false,
+      interceptors: {
+        response: [
+          (response, request) => {
+            seen.push(`${request.operation}:${response.status}`);
+            return response.status === 503
+              ? Response.json({ error: 'Rewritten' }, { status: 429, headers: { 'Retry-After': '5' } })
+              : undefined;
+          },
+        ],
+      },
+    });
+    backend.failNext({ path: '/entities/COLLECTION', status: 503 });
+
+    const error = await client.getEntity('COLLECTION').catch((e: unknown) => e);
+    expect(seen).toEqual(['getEntity:503']);
+    expect(error).toBeInstanceOf(RateLimitError);
+    expect((error as RateLimitError).retryAfterMs).toBe(5000);
+  });
+
+  it('runs interceptors in order around an adapter transport', async () => {
+    const order: string[] = [];
+    const client = new ArkeClient({
+      ...backend.clientConfig,
+      transport: {
+        request: (url, init) => {
+          order.push('transport');
+          return backend.fetch(url, init);
+        },
+      },
+      interceptors: {
+        request: [() => void order.push('request 1'), () => void order.push('request 2')],
+        response: [() => void order.push('response')],
+      },
+    });
+
+    expect((await client.getEntity('COLLECTION')).pi).toBe('COLLECTION');
+    expect(order).toEqual(['request 1', 'request 2', 'transport', 'response']);
+  });
+});
+
+describe('WebSocket status stream', () => {
+  const opened: { url: string; protocols?: string[] }[] = [];
+
+  /** Records the handshake, then fails it so the client falls back to polling */
+  class RefusedWebSocket {
+    onopen: (() => void) | null = null;
+    onerror: (() => void) | null = null;
+    onclose: (() => void) | null = null;
+
+    constructor(url: string, protocols?: string[]) {
+      opened.push({ url, protocols });
+      setTimeout(() => this.onerror?.());
+    }
+
+    close() {}
+  }
+
+  beforeEach(() => {
+    opened.length = 0;
+    vi.stubGlobal('WebSocket', RefusedWebSocket);
+  });
+
+  afterEach(() => {
+    vi.unstubAllGlobals();
+  });
+
+  async function watch(config: { authToken?: string; webSocketAuth?: 'protocol' | 'query' }) {
+    const client = new ArkeClient({ ...backend.clientConfig, ...config, statusStream: 'websocket' });
+    const batch = await client.reprocess({ pi: 'COLLECTION', phases: ['description'], cascade: false });
+    const statuses: string[] = [];
+    for await (const status of client.watchReprocessStatus(batch.status_url, { intervalMs: 0 })) {
+      statuses.push(status.status);
+    }
+    return statuses;
+  }
+
+  it('keeps the token out of the URL unless asked to', async () => {
+    expect(await watch({ authToken: 'secret' })).toContain('DONE');
+    expect(opened).toHaveLength(0);
+  });
+
+  it('connects without a token when none is configured', async () => {
+    await watch({});
+    expect(opened).toHaveLength(1);
+    expect(opened[0].url).not.toContain('access_token');
+  });
+
+  it('offers the token as a subprotocol', async () => {
+    await watch({ authToken: 'secret', webSocketAuth: 'protocol' });
+    expect(opened[0].protocols).toEqual(['bearer.secret']);
+    expect(opened[0].url).not.toContain('secret');
+  });
+
+  it('tries the WebSocket in auto mode when SSE is unavailable', async () => {
+    const client = new ArkeClient({ ...backend.clientConfig, statusStream: 'auto' });
+    const batch = await client.reprocess({ pi: 'COLLECTION', phases: ['description'], cascade: false });
+    backend.failNext({ method: 'GET', path: /\/status\//, status: 406 });
+
+    const statuses: string[] = [];
+    for await (const status of client.watchReprocessStatus(batch.status_url, { intervalMs: 0 })) {
+      statuses.push(status.status);
+    }
+    expect(opened).toHaveLength(1);
+    expect(statuses).toContain('DONE');
+  });
+
+  it('puts the token in the query when configured', async () => {
+    expect(await watch({ authToken: 'secret', webSocketAuth: 'query' })).toContain('DONE');
+    expect(new URL(opened[0].url).searchParams.get('access_token')).toBe('secret');
+  });
+});
+
+describe('uploads', () => {
+  it('types text uploads by filename', async () => {
+    const client = new ArkeClient(backend.clientConfig);
+    const markdown = await client.uploadContent('# Title', 'description.md');
+    const json = await client.uploadContent('{}', 'pinax.json');
+    const unknown = await client.uploadContent('Notes', 'notes');
+
+    expect(backend.getContentBytes(markdown)?.type).toBe('text/markdown');
+    expect(backend.getContentBytes(json)?.type).toBe('application/json');
+    expect(backend.getContentBytes(unknown)?.type).toBe('text/plain');
+  });
+
+  it('uploads and downloads bytes unchanged', async () => {
+    const client = new ArkeClient(backend.clientConfig);
+    const bytes = new Uint8Array([0x00, 0xff, 0x10, 0x80]);
+    const cid = await client.uploadContent(bytes.subarray(1, 3), 'scan.png');
+
+    expect(backend.getContentBytes(cid)?.bytes).toEqual(new Uint8Array([0xff, 0x10]));
+    expect(await client.getContentBytes(cid)).toEqual(new Uint8Array([0xff, 0x10]));
+  });
+});
@@ -4,93 +4,402 @@
 
 import type {
   ArkeClientConfig,
+  AuthTokenProvider,
+  ArkeOperation,
+  ArkeRequest,
+  ArkeTransport,
+  FetchLike,
+  RequestInterceptor,
+  ResponseInterceptor,
+  BinaryContent,
+  UploadOptions,
   Entity,
+  EntityTreeNode,
+  AncestorOptions,
+  TraversalOptions,
   EntityUpdate,
   EntityVersion,
+  RollbackOptions,
+  VersionHistoryEntry,
+  VersionHistoryPage,
   ReprocessRequest,
   ReprocessResult,
   ReprocessStatus,
+  StatusStreamMode,
+  StatusStreamOptions,
+  RequestOptions,
+  RetryPolicy,
+  HttpErrorDetails,
 } from './types';
 import {
   EntityNotFoundError,
+  VersionNotFoundError,
   CASConflictError,
   ArkeEditError,
   ReprocessError,
+  CancelledError,
+  ArkeHttpError,
+  AuthenticationError,
+  AuthorizationError,
+  RateLimitError,
+  PayloadTooLargeError,
+  ServiceUnavailableError,
+  MalformedResponseError,
+  NetworkError,
 } from './types';
+import { isAbortError, linkSignals, sleep, throwIfAborted } from './abort';
+import { ContentCache } from './cache';
+import { resolveContentType, toBlob } from './content';
+import { openWebSocket, readEventStream, readWebSocket } from './stream';
 
-/** Default retry options for status polling */
-const DEFAULT_RETRY_OPTIONS = {
-  maxRetries: 5,
-  initialDelayMs: 2000,  // Start with 2s delay (orchestrator needs time to initialize)
+/** Default retry policy for all requests */
+const DEFAULT_RETRY_POLICY: Required<RetryPolicy> = {
+  maxRetries: 3,
+  initialDelayMs: 500,
   maxDelayMs: 30000,     // Cap at 30s
   backoffMultiplier: 2,  // Double each retry
+  jitter: 0.2,
+  retryOn: [408, 429, 500, 502, 503, 504],
+  respectRetryAfter: true,
 };
 
+/** Status polling defaults: the orchestrator needs time to initialize */
+const STATUS_RETRY_POLICY: RetryPolicy = {
+  maxRetries: 5,
+  initialDelayMs: 2000,  // Start with 2s delay
+};
+
+/** Longest response body excerpt kept on errors */
+const MAX_BODY_EXCERPT = 1000;
+
+/** Response headers checked, in order, for a request id */
+const REQUEST_ID_HEADERS = ['x-request-id', 'x-amzn-requestid', 'cf-ray'];
+
+/** Decides whether a failed attempt of a non-idempotent request may be retried */
+type RetryGuard = (failure: Response | Error) => boolean | Promise<boolean>;
+
+/** Request fields passed to send() */
+interface SendInit {
+  method?: string;
+  headers: Record<string, string>;
+  body?: BodyInit;
+  signal?: AbortSignal;
+}
+
 export class ArkeClient {
   private ipfsWrapperUrl: string;
   private reprocessApiUrl: string;
-  private authToken?: string;
+  private authToken?: string | AuthTokenProvider;
+  private onUnauthorized?: () => boolean | void | Promise<boolean | void>;
+  private refreshing: Promise<boolean | void> | null = null;
+  private retryPolicy: RetryPolicy | false;
+  private contentCache?: ContentCache;
+  private sentRequests = new WeakMap<Response, ArkeRequest>();
   private statusUrlTransform?: (url: string) => string;
+  private statusStream: StatusStreamMode;
+  private webSocketAuth?: 'protocol' | 'query';
+  private transport: ArkeTransport;
+  private requestInterceptors: RequestInterceptor[];
+  private responseInterceptors: ResponseInterceptor[];
 
   constructor(config: ArkeClientConfig) {
     this.ipfsWrapperUrl = config.ipfsWrapperUrl.replace(/\/$/, '');
     this.reprocessApiUrl = config.reprocessApiUrl.replace(/\/$/, '');
     this.authToken = config.authToken;
+    this.onUnauthorized = config.onUnauthorized;
+    this.retryPolicy = config.retry ?? {};
+    if (config.cache) {
+      this.contentCache =
+        config.cache instanceof ContentCache ? config.cache : new ContentCache(config.cache);
+    }
     this.statusUrlTransform = config.statusUrlTransform;
+    this.statusStream = config.statusStream ?? 'auto';
+    this.webSocketAuth = config.webSocketAuth;
+    this.transport = resolveTransport(config.transport);
+    this.requestInterceptors = config.interceptors?.request ?? [];
+    this.responseInterceptors = config.interceptors?.response ?? [];
+  }
+
+  /**
+   * Send a request through the interceptors and the configured transport
+   */
+  private async send(
+    operation: ArkeOperation,
+    url: string,
+    init: SendInit,
+    isAuthRetry = false
+  ): Promise<Response> {
+    throwIfAborted(init.signal);
+
+    const headers = { ...init.headers };
+    const token = await this.resolveToken();
+    if (token) {
+      headers['Authorization'] = `Bearer ${token}`;
+    }
+
+    let request: ArkeRequest = {
+      operation,
+      url,
+      method: init.method ?? 'GET',
+      headers,
+      body: init.body,
+      signal: init.signal,
+    };
+
+    for (const interceptor of this.requestInterceptors) {
+      request = (await interceptor(request)) ?? request;
+    }
+
+    let response: Response;
+    try {
+      response = await this.transport.request(request.url, {
+        method: request.method,
+        headers: request.headers,
+        body: request.body,
+        signal: request.signal,
+      });
+    } catch (error) {
+      if (isAbortError(error)) {
+        throw new CancelledError(init.signal?.reason);
+      }
+      const reason = error instanceof Error ? error.message : String(error);
+      throw new NetworkError(
+        `Network request failed: ${reason}`,
+        { operation, url: request.url, method: request.method },
+        error
+      );
+    }
+
+    for (const interceptor of this.responseInterceptors) {
+      response = (await interceptor(response, request)) ?? response;
+    }
+    this.sentRequests.set(response, request);
+
+    if (response.status === 401 && !isAuthRetry && this.onUnauthorized) {
+      if ((await this.refreshAuth()) !== false) {
+        return this.send(operation, url, init, true);
+      }
+    }
+
+    if (response.status === 401 || response.status === 403) {
+      throw await this.toError(response);
+    }
+
+    return response;
+  }
+
+  /**
+   * Build the error for a failed response: a typed error for well-known
+   * statuses, otherwise the operation's fallback
+   */
+  private async toError(
+    response: Response,
+    fallback?: (http: HttpErrorDetails) => ArkeEditError
+  ): Promise<ArkeEditError> {
+    const http = await this.describe(response);
+    const retryAfterMs = parseRetryAfter(response.headers.get('Retry-After'));
+    const status = `${response.status} ${response.statusText}`.trim();
+
+    switch (response.status) {
+      case 401:
+        return new AuthenticationError(`Authentication failed: ${status}`, http);
+      case 403:
+        return new AuthorizationError(`Not authorized: ${status}`, http);
+      case 413:
+        return new PayloadTooLargeError(`Payload too large: ${status}`, http);
+      case 429:
+        return new RateLimitError(`Rate limited: ${status}`, http, retryAfterMs);
+      case 502:
+      case 503:
+      case 504:
+        return new ServiceUnavailableError(`Service unavailable: ${status}`, http, retryAfterMs);
+      default:
+        return fallback
+          ? fallback(http)
+          : new ArkeHttpError(`Request failed: ${status}`, 'HTTP_ERROR', http);
+    }
+  }
+
+  /**
+   * Collect HTTP metadata for an error from a response and its request
+   *
+   * @param body - Response body if already read; otherwise it is read here
+   */
+  private async describe(response: Response, body?: string): Promise<HttpErrorDetails> {
+    const request = this.sentRequests.get(response);
+
+    if (body === undefined) {
+      body = await response.text().catch(() => '');
+    }
+
+    return {
+      operation: request?.operation,
+      url: request?.url ?? response.url,
+      method: request?.method ?? 'GET',
+      status: response.status,
+      statusText: response.statusText,
+      responseBody: body.length > MAX_BODY_EXCERPT ? `${body.slice(0, MAX_BODY_EXCERPT)}…` : body || undefined,
+      requestId: REQUEST_ID_HEADERS.map((name) => response.headers.get(name)).find(Boolean) ?? undefined,
+    };
+  }
+
+  /**
+   * Parse a JSON response body, raising MalformedResponseError when it is
+   * not JSON or fails the shape check
+   */
+  private async parseJson<T>(response: Response, isValid?: (value: unknown) => boolean): Promise<T> {
+    const body = await response.text();
+
+    let value: unknown;
+    try {
+      value = JSON.parse(body);
+    } catch {
+      throw new MalformedResponseError('Response is not valid JSON', await this.describe(response, body));
+    }
+
+    if (isValid && !isValid(value)) {
+      throw new MalformedResponseError('Response has an unexpected shape', await this.describe(response, body));
+    }
+
+    return value as T;
+  }
+
+  /**
+   * Resolve the current bearer token, calling the provider if configured
+   */
+  private async resolveToken(): Promise<string | undefined> {
+    return typeof this.authToken === 'function' ? this.authToken() : this.authToken;
+  }
+
+  /**
+   * Run the onUnauthorized hook, sharing one call between concurrent 401s
+   */
+  private refreshAuth(): Promise<boolean | void> {
+    if (!this.refreshing) {
+      this.refreshing = Promise.resolve()
+        .then(() => this.onUnauthorized!())
+        .finally(() => {
+          this.refreshing = null;
+        });
+    }
+    return this.refreshing;
   }
 
   /**
-   * Sleep for a given number of milliseconds
+   * Merge retry policies: SDK defaults < operation defaults < client config < call
    */
-  private sleep(ms: number): Promise<void> {
-    return new Promise((resolve) => setTimeout(resolve, ms));
+  private resolveRetryPolicy(
+    options?: RequestOptions,
+    operationDefaults?: RetryPolicy
+  ): Required<RetryPolicy> {
+    if (this.retryPolicy === false || options?.retry === false) {
+      return { ...DEFAULT_RETRY_POLICY, maxRetries: 0 };
+    }
+    return {
+      ...DEFAULT_RETRY_POLICY,
+      ...operationDefaults,
+      ...this.retryPolicy,
+      ...options?.retry,
+    };
   }
 
   /**
-   * Execute a fetch with exponential backoff retry on transient errors
+   * Execute a request with exponential backoff retry on transient errors
+   *
+   * @param guard - For non-idempotent requests: consulted before each retry
    */
   private async fetchWithRetry(
+    operation: ArkeOperation,
     url: string,
-    options: RequestInit,
-    retryOptions = DEFAULT_RETRY_OPTIONS
+    init: SendInit,
+    policy: Required<RetryPolicy>,
+    guard?: RetryGuard
   ): Promise<Response> {
-    let lastError: Error | null = null;
-    let delay = retryOptions.initialDelayMs;
+    let delay = policy.initialDelayMs;
+
+    for (let attempt = 0; ; attempt++) {
+      let failure: Response | Error;
 
-    for (let attempt = 0; attempt <= retryOptions.maxRetries; attempt++) {
       try {
-        const response = await fetch(url, options);
-
-        // Retry on 5xx errors (server errors)
-        if (response.status >= 500 && attempt < retryOptions.maxRetries) {
-          lastError = new Error(`Server error: ${response.status} ${response.statusText}`);
-          await this.sleep(delay);
-          delay = Math.min(delay * retryOptions.backoffMultiplier, retryOptions.maxDelayMs);
-          continue;
+        const response = await this.send(operation, url, init);
+        if (!policy.retryOn.includes(response.status) || attempt >= policy.maxRetries) {
+          return response;
         }
-
-        return response;
+        failure = response;
       } catch (error) {
-        // Network errors - retry
-        lastError = error as Error;
-        if (attempt < retryOptions.maxRetries) {
-          await this.sleep(delay);
-          delay = Math.min(delay * retryOptions.backoffMultiplier, retryOptions.maxDelayMs);
+        // Only network errors are retried; other SDK errors (cancellation, auth) are final
+        if (!(error instanceof NetworkError) || attempt >= policy.maxRetries) {
+          throw error;
         }
+        failure = error;
+      }
+
+      const wait = this.retryDelay(delay, policy, failure);
+      if (wait === null) {
+        return failure as Response;
       }
+
+      if (guard && !(await guard(failure))) {
+        if (failure instanceof Response) return failure;
+        throw failure;
+      }
+
+      await sleep(wait, init.signal);
+      delay = Math.min(delay * policy.backoffMultiplier, policy.maxDelayMs);
     }
+  }
 
-    throw lastError || new Error('Request failed after retries');
+  /**
+   * Backoff delay with jitter, extended to honor Retry-After on 429/503
+   *
+   * @returns null if Retry-After asks for longer than maxDelayMs, in which
+   *   case the response is returned instead of retried
+   */
+  private retryDelay(delay: number, policy: Required<RetryPolicy>, failure: Response | Error): number | null {
+    const jittered = delay * (1 - policy.jitter * Math.random());
+
+    if (policy.respectRetryAfter && failure instanceof Response && isRejectedBeforeProcessing(failure)) {
+      const retryAfter = parseRetryAfter(failure.headers.get('Retry-After'));
+      if (retryAfter !== undefined) {
+        return retryAfter > policy.maxDelayMs ? null : Math.min(Math.max(jittered, retryAfter), policy.maxDelayMs);
+      }
+    }
+
+    return jittered;
+  }
+
+  /**
+   * GET a CID from the IPFS wrapper, raising on failure
+   */
+  private async fetchContent(cid: string, options?: RequestOptions): Promise<Response> {
+    const response = await this.fetchWithRetry(
+      'getContent',
+      `${this.ipfsWrapperUrl}/cat/${cid}`,
+      { headers: this.getHeaders(), signal: options?.signal },
+      this.resolveRetryPolicy(options)
+    );
+
+    if (!response.ok) {
+      throw await this.toError(
+        response,
+        (http) => new ArkeHttpError(`Failed to fetch content: ${response.statusText}`, 'FETCH_ERROR', http, { cid })
+      );
+    }
+
+    return response;
   }
 
-  private getHeaders(): HeadersInit {
-    const headers: HeadersInit = {
+  private getHeaders(): Record<string, string> {
+    return {
       'Content-Type': 'application/json',
     };
-    if (this.authToken) {
-      headers['Authorization'] = `Bearer ${this.authToken}`;
-    }
-    return headers;
+  }
+
+  /**
+   * Get the content cache, if one is configured
+   */
+  getContentCache(): ContentCache | undefined {
+    return this.contentCache;
   }
 
   // ===========================================================================
@@ -100,95 +409,240 @@ export class ArkeClient {
   /**
    * Fetch an entity by PI
    */
-  async getEntity(pi: string): Promise<Entity> {
-    const response = await fetch(`${this.ipfsWrapperUrl}/entities/${pi}`, {
-      headers: this.getHeaders(),
-    });
+  async getEntity(pi: string, options?: RequestOptions): Promise<Entity> {
+    const response = await this.fetchWithRetry(
+      'getEntity',
+      `${this.ipfsWrapperUrl}/entities/${pi}`,
+      { headers: this.getHeaders(), signal: options?.signal },
+      this.resolveRetryPolicy(options)
+    );
 
     if (response.status === 404) {
       throw new EntityNotFoundError(pi);
     }
 
     if (!response.ok) {
-      throw new ArkeEditError(
-        `Failed to fetch entity: ${response.statusText}`,
-        'FETCH_ERROR',
-        { status: response.status }
+      throw await this.toError(
+        response,
+        (http) => new ArkeHttpError(`Failed to fetch entity: ${response.statusText}`, 'FETCH_ERROR', http)
       );
     }
 
-    return response.json();
+    return this.parseJson(response, isEntity);
   }
 
   /**
-   * Fetch content by CID
+   * List versions of an entity, newest first, one page at a time
    */
-  async getContent(cid: string): Promise<string> {
-    const response = await fetch(`${this.ipfsWrapperUrl}/cat/${cid}`, {
-      headers: this.getHeaders(),
-    });
+  async listVersions(
+    pi: string,
+    options?: RequestOptions & { limit?: number; cursor?: string }
+  ): Promise<VersionHistoryPage> {
+    const params = new URLSearchParams();
+    if (options?.limit) params.set('limit', String(options.limit));
+    if (options?.cursor) params.set('cursor', options.cursor);
+    const query = params.toString() ? `?${params}` : '';
+
+    const response = await this.fetchWithRetry(
+      'listVersions',
+      `${this.ipfsWrapperUrl}/entities/${pi}/versions${query}`,
+      { headers: this.getHeaders(), signal: options?.signal },
+      this.resolveRetryPolicy(options)
+    );
+
+    if (response.status === 404) {
+      throw new EntityNotFoundError(pi);
+    }
 
     if (!response.ok) {
-      throw new ArkeEditError(
-        `Failed to fetch content: ${response.statusText}`,
-        'FETCH_ERROR',
-        { cid, status: response.status }
+      throw await this.toError(
+        response,
+        (http) => new ArkeHttpError(`Failed to list versions: ${response.statusText}`, 'FETCH_ERROR', http)
       );
     }
 
-    return response.text();
+    // Response format: { items: [{ ver, cid, ts, note }], next_cursor }
+    const result = await this.parseJson<{
+      items: Array<{ ver: number; cid: string; ts: string; note?: string }>;
+      next_cursor?: string | null;
+    }>(response, (page) => isRecord(page) && Array.isArray(page.items));
+    return {
+      versions: result.items.map(
+        (item): VersionHistoryEntry => ({
+          ver: item.ver,
+          tip: item.cid,
+          ts: item.ts,
+          note: item.note,
+        })
+      ),
+      nextCursor: result.next_cursor ?? undefined,
+    };
   }
 
   /**
-   * Upload content and get CID
+   * Walk the version chain of an entity, newest first
+   *
+   * @param maxVersions - Stop after this many versions (default: all)
    */
-  async uploadContent(content: string, filename: string): Promise<string> {
-    const formData = new FormData();
-    const blob = new Blob([content], { type: 'text/plain' });
-    formData.append('file', blob, filename);
+  async getVersionHistory(
+    pi: string,
+    maxVersions = Infinity,
+    options?: RequestOptions
+  ): Promise<VersionHistoryEntry[]> {
+    const history: VersionHistoryEntry[] = [];
+    let cursor: string | undefined;
+
+    do {
+      const remaining = maxVersions - history.length;
+      const page = await this.listVersions(pi, {
+        cursor,
+        limit: Number.isFinite(remaining) ? Math.min(remaining, 100) : 100,
+        signal: options?.signal,
+        retry: options?.retry,
+      });
+      history.push(...page.versions);
+      cursor = page.nextCursor;
+    } while (cursor && history.length < maxVersions);
+
+    return history.slice(0, maxVersions);
+  }
 
-    const headers: HeadersInit = {};
-    if (this.authToken) {
-      headers['Authorization'] = `Bearer ${this.authToken}`;
+  /**
+   * Fetch an entity as it was at a given version
+   */
+  async getEntityVersion(pi: string, ver: number, options?: RequestOptions): Promise<Entity> {
+    const response = await this.fetchWithRetry(
+      'getEntityVersion',
+      `${this.ipfsWrapperUrl}/entities/${pi}/versions/ver:${ver}`,
+      { headers: this.getHeaders(), signal: options?.signal },
+      this.resolveRetryPolicy(options)
+    );
+
+    if (response.status === 404) {
+      throw new VersionNotFoundError(pi, ver);
     }
 
-    const response = await fetch(`${this.ipfsWrapperUrl}/upload`, {
-      method: 'POST',
-      headers,
-      body: formData,
-    });
+    if (!response.ok) {
+      throw await this.toError(
+        response,
+        (http) => new ArkeHttpError(`Failed to fetch entity version: ${response.statusText}`, 'FETCH_ERROR', http)
+      );
+    }
+
+    return this.parseJson(response, isEntity);
+  }
+
+  /**
+   * Fetch content by CID (served from the content cache when configured)
+   */
+  async getContent(cid: string, options?: RequestOptions): Promise<string> {
+    const cached = await this.contentCache?.get(cid);
+    if (cached !== undefined) {
+      return cached;
+    }
+
+    const response = await this.fetchContent(cid, options);
+    const content = await response.text();
+    await this.contentCache?.set(cid, content);
+    return content;
+  }
+
+  /**
+   * Fetch content by CID as bytes, for images, PDFs and other binary
+   * components. Bypasses the content cache, which holds text.
+   */
+  async getContentBytes(cid: string, options?: RequestOptions): Promise<Uint8Array> {
+    const response = await this.fetchContent(cid, options);
+    return new Uint8Array(await response.arrayBuffer());
+  }
+
+  /**
+   * Fetch content by CID as a stream of bytes, for large files
+   */
+  async getContentStream(cid: string, options?: RequestOptions): Promise<ReadableStream<Uint8Array>> {
+    const response = await this.fetchContent(cid, options);
+    return response.body ?? new Response(await response.arrayBuffer()).body!;
+  }
+
+  /**
+   * Upload content and get CID
+   *
+   * Accepts text or bytes. The content type is taken from `options`, then
+   * from a Blob's own type, then detected from the filename.
+   * Uploads are content-addressed, so retrying yields the same CID.
+   */
+  async uploadContent(
+    content: string | BinaryContent,
+    filename: string,
+    options?: UploadOptions
+  ): Promise<string> {
+    const contentType = resolveContentType(content, filename, options?.contentType);
+
+    const formData = new FormData();
+    formData.append('file', await toBlob(content, contentType), filename);
+
+    const response = await this.fetchWithRetry(
+      'uploadContent',
+      `${this.ipfsWrapperUrl}/upload`,
+      { method: 'POST', headers: {}, body: formData, signal: options?.signal },
+      this.resolveRetryPolicy(options)
+    );
 
     if (!response.ok) {
-      throw new ArkeEditError(
-        `Failed to upload content: ${response.statusText}`,
-        'UPLOAD_ERROR',
-        { status: response.status }
+      throw await this.toError(
+        response,
+        (http) => new ArkeHttpError(`Failed to upload content: ${response.statusText}`, 'UPLOAD_ERROR', http)
       );
     }
 
-    const result = await response.json();
     // Response format: [{ cid, name, size }]
-    return result[0].cid;
+    const result = await this.parseJson<Array<{ cid: string }>>(
+      response,
+      (files) => Array.isArray(files) && isRecord(files[0]) && typeof files[0].cid === 'string'
+    );
+    const cid = result[0].cid;
+    if (typeof content === 'string') {
+      await this.contentCache?.set(cid, content);
+    }
+    return cid;
   }
 
   /**
    * Update an entity with new components
+   *
+   * After an ambiguous failure (network error or 5xx) the write is retried only
+   * once the tip is confirmed unchanged, so a version is never written twice.
    */
-  async updateEntity(pi: string, update: EntityUpdate): Promise<EntityVersion> {
-    const response = await fetch(`${this.ipfsWrapperUrl}/entities/${pi}/versions`, {
-      method: 'POST',
-      headers: this.getHeaders(),
-      body: JSON.stringify({
-        expect_tip: update.expect_tip,
-        components: update.components,
-        components_remove: update.components_remove,
-        note: update.note,
-      }),
-    });
+  async updateEntity(
+    pi: string,
+    update: EntityUpdate,
+    options?: RequestOptions
+  ): Promise<EntityVersion> {
+    const response = await this.fetchWithRetry(
+      'updateEntity',
+      `${this.ipfsWrapperUrl}/entities/${pi}/versions`,
+      {
+        method: 'POST',
+        headers: this.getHeaders(),
+        body: JSON.stringify({
+          expect_tip: update.expect_tip,
+          components: update.components,
+          components_remove: update.components_remove,
+          note: update.note,
+        }),
+        signal: options?.signal,
+      },
+      this.resolveRetryPolicy(options),
+      async (failure) => {
+        if (failure instanceof Response && isRejectedBeforeProcessing(failure)) return true;
+        const entity = await this.getEntity(pi, { signal: options?.signal });
+        return entity.manifest_cid === update.expect_tip;
+      }
+    );
 
     if (response.status === 409) {
       // CAS conflict - entity was modified
-      const entity = await this.getEntity(pi);
+      const entity = await this.getEntity(pi, options);
       throw new CASConflictError(
         pi,
         update.expect_tip,
@@ -197,14 +651,161 @@ export class ArkeClient {
     }
 
     if (!response.ok) {
-      throw new ArkeEditError(
-        `Failed to update entity: ${response.statusText}`,
-        'UPDATE_ERROR',
-        { status: response.status }
+      throw await this.toError(
+        response,
+        (http) => new ArkeHttpError(`Failed to update entity: ${response.statusText}`, 'UPDATE_ERROR', http)
       );
     }
 
-    return response.json();
+    return this.parseJson(response, (version) => isRecord(version) && typeof version.tip === 'string');
+  }
+
+  /**
+   * Restore components from an earlier version by writing a new version
+   *
+   * Restores the whole component map (removing components added since) unless
+   * `options.components` is given. The write is CAS-protected against the tip
+   * read here. Returns null when the current tip already matches.
+   */
+  async restoreVersion(
+    pi: string,
+    ver: number,
+    options?: RollbackOptions
+  ): Promise<EntityVersion | null> {
+    const [current, target] = await Promise.all([
+      this.getEntity(pi, options),
+      this.getEntityVersion(pi, ver, options),
+    ]);
+
+    if (options?.expectTip && current.manifest_cid !== options.expectTip) {
+      throw new CASConflictError(pi, options.expectTip, current.manifest_cid);
+    }
+
+    const names =
+      options?.components ??
+      [...new Set([...Object.keys(current.components), ...Object.keys(target.components)])];
+
+    const components: Record<string, string> = {};
+    const componentsRemove: string[] = [];
+
+    for (const name of names) {
+      const cid = target.components[name];
+      if (cid === undefined) {
+        if (name in current.components) componentsRemove.push(name);
+      } else if (current.components[name] !== cid) {
+        components[name] = cid;
+      }
+    }
+
+    if (Object.keys(components).length === 0 && componentsRemove.length === 0) {
+      return null;
+    }
+
+    const restored = options?.components ? ` (${options.components.join(', ')})` : '';
+
+    return this.updateEntity(
+      pi,
+      {
+        expect_tip: options?.expectTip ?? current.manifest_cid,
+        components,
+        components_remove: componentsRemove.length > 0 ? componentsRemove : undefined,
+        note: options?.note ?? `Rollback to v${ver}${restored}`,
+      },
+      options
+    );
+  }
+
+  // ===========================================================================
+  // Entity Tree Traversal
+  // ===========================================================================
+
+  /**
+   * Fetch the ancestors of an entity, nearest first
+   *
+   * Follows parent_pi up to the root, or stops below `stopAtPi`, which is
+   * not included (matching the cascade scope).
+   */
+  async getAncestors(pi: string, options?: AncestorOptions): Promise<Entity[]> {
+    const ancestors: Entity[] = [];
+    const seen = new Set([pi]);
+    let parentPi = (await this.getEntity(pi, options)).parent_pi;
+
+    while (parentPi && parentPi !== options?.stopAtPi && !seen.has(parentPi)) {
+      seen.add(parentPi);
+      const parent = await this.getEntity(parentPi, options);
+      ancestors.push(parent);
+      parentPi = parent.parent_pi;
+    }
+
+    return ancestors;
+  }
+
+  /**
+   * Walk an entity and its descendants breadth-first
+   *
+   * Nodes are yielded in BFS order as they are fetched, with up to
+   * `concurrency` fetches in flight. Each node is attached to its parent's
+   * `children` when yielded, so the first node is the root of the tree
+   * visited so far. Stopping iteration early cancels pending fetches.
+   */
+  async *walkDescendants(pi: string, options?: TraversalOptions): AsyncGenerator<EntityTreeNode> {
+    const maxDepth = options?.maxDepth ?? Infinity;
+    const concurrency = Math.max(1, options?.concurrency ?? 4);
+    const walk = linkSignals(options?.signal);
+    const requestOptions = { retry: options?.retry, signal: walk.signal };
+
+    const queue: Array<{ pi: string; depth: number; parent: EntityTreeNode }> = [];
+    const inFlight: Array<{ parent: EntityTreeNode; node: Promise<EntityTreeNode> }> = [];
+    const seen = new Set([pi]);
+
+    const enqueueChildren = (node: EntityTreeNode) => {
+      if (node.depth >= maxDepth) return;
+      for (const childPi of node.entity.children_pi) {
+        if (seen.has(childPi)) continue;
+        seen.add(childPi);
+        queue.push({ pi: childPi, depth: node.depth + 1, parent: node });
+      }
+    };
+
+    try {
+      const root: EntityTreeNode = { entity: await this.getEntity(pi, requestOptions), depth: 0, children: [] };
+      yield root;
+      enqueueChildren(root);
+
+      while (queue.length > 0 || inFlight.length > 0) {
+        while (inFlight.length < concurrency && queue.length > 0) {
+          const next = queue.shift()!;
+          const node = this.getEntity(next.pi, requestOptions).then(
+            (entity): EntityTreeNode => ({ entity, depth: next.depth, children: [] })
+          );
+          node.catch(() => undefined); // Surfaced when awaited in order
+          inFlight.push({ parent: next.parent, node });
+        }
+
+        const { parent, node } = inFlight.shift()!;
+        const child = await node;
+        parent.children.push(child);
+        yield child;
+        enqueueChildren(child);
+      }
+    } finally {
+      walk.abort();
+      walk.dispose();
+    }
+  }
+
+  /**
+   * Fetch an entity and its descendants as a tree
+   *
+   * For large collections prefer walkDescendants(), which yields nodes as
+   * they arrive.
+   */
+  async getTree(pi: string, options?: TraversalOptions): Promise<EntityTreeNode> {
+    let root: EntityTreeNode | undefined;
+    for await (const node of this.walkDescendants(pi, options)) {
+      root ??= node;
+    }
+    return root!;
   }
 
   // ===========================================================================
@@ -213,28 +814,66 @@ export class ArkeClient {
 
   /**
    * Trigger reprocessing for an entity
+   *
+   * Not idempotent: only retried when the service rejected the request
+   * before processing it (429/503), never after network errors or other 5xx.
    */
-  async reprocess(request: ReprocessRequest): Promise<ReprocessResult> {
-    const response = await fetch(`${this.reprocessApiUrl}/api/reprocess`, {
-      method: 'POST',
-      headers: this.getHeaders(),
-      body: JSON.stringify({
-        pi: request.pi,
-        phases: request.phases,
-        cascade: request.cascade,
-        options: request.options,
-      }),
-    });
+  async reprocess(request: ReprocessRequest, options?: RequestOptions): Promise<ReprocessResult> {
+    const response = await this.fetchWithRetry(
+      'reprocess',
+      `${this.reprocessApiUrl}/api/reprocess`,
+      {
+        method: 'POST',
+        headers: this.getHeaders(),
+        body: JSON.stringify({
+          pi: request.pi,
+          phases: request.phases,
+          cascade: request.cascade,
+          options: request.options,
+        }),
+        signal: options?.signal,
+      },
+      this.resolveRetryPolicy(options),
+      (failure) => failure instanceof Response && isRejectedBeforeProcessing(failure)
+    );
 
     if (!response.ok) {
-      const error = await response.json().catch(() => ({}));
-      throw new ReprocessError(
-        error.message || `Reprocess failed: ${response.statusText}`,
-        undefined
+      throw await this.toError(
+        response,
+        (http) => new ReprocessError(bodyMessage(http) ?? `Reprocess failed: ${response.statusText}`, undefined, http)
       );
     }
 
-    return response.json();
+    return this.parseJson(response, (result) => isRecord(result) && typeof result.status_url === 'string');
+  }
+
+  /**
+   * Cancel an in-flight reprocess batch
+   *
+   * Entities not yet regenerated are left untouched; versions already written
+   * by the batch are kept (see ArkeEditSDK.rollbackBatch() to undo them).
+   * Cancelling an already cancelled batch is a no-op, so this is retried like
+   * any idempotent request.
+   *
+   * @returns The batch status after cancellation
+   * @throws ReprocessError if the batch is unknown or has already finished
+   */
+  async cancelReprocess(batchId: string, options?: RequestOptions): Promise<ReprocessStatus> {
+    const response = await this.fetchWithRetry(
+      'cancelReprocess',
+      `${this.reprocessApiUrl}/api/reprocess/${encodeURIComponent(batchId)}/cancel`,
+      { method: 'POST', headers: this.getHeaders(), signal: options?.signal },
+      this.resolveRetryPolicy(options)
+    );
+
+    if (!response.ok) {
+      throw await this.toError(
+        response,
+        (http) => new ReprocessError(bodyMessage(http) ?? `Cancel failed: ${response.statusText}`, batchId, http)
+      );
+    }
+
+    return this.parseJson(response, (status) => isRecord(status) && typeof status.status === 'string');
   }
 
   /**
@@ -245,30 +884,247 @@ export class ArkeClient {
    *
    * @param statusUrl - The status URL returned from reprocess()
    * @param isFirstPoll - If true, uses a longer initial delay (orchestrator warmup)
+   * @param options - Request options; aborting also cancels pending retry delays
    */
-  async getReprocessStatus(statusUrl: string, isFirstPoll = false): Promise<ReprocessStatus> {
+  async getReprocessStatus(
+    statusUrl: string,
+    isFirstPoll = false,
+    options?: RequestOptions
+  ): Promise<ReprocessStatus> {
     // Use longer initial delay for first poll after triggering reprocess
-    const retryOptions = isFirstPoll
-      ? { ...DEFAULT_RETRY_OPTIONS, initialDelayMs: 3000 }
-      : DEFAULT_RETRY_OPTIONS;
+    const retryPolicy = this.resolveRetryPolicy(
+      options,
+      isFirstPoll ? { ...STATUS_RETRY_POLICY, initialDelayMs: 3000 } : STATUS_RETRY_POLICY
+    );
 
     // Apply URL transform if configured (for CORS proxy)
     const fetchUrl = this.statusUrlTransform ? this.statusUrlTransform(statusUrl) : statusUrl;
 
     const response = await this.fetchWithRetry(
+      'getReprocessStatus',
       fetchUrl,
-      { headers: this.getHeaders() },
-      retryOptions
+      { headers: this.getHeaders(), signal: options?.signal },
+      retryPolicy
     );
 
     if (!response.ok) {
-      throw new ArkeEditError(
-        `Failed to fetch reprocess status: ${response.statusText}`,
-        'STATUS_ERROR',
-        { status: response.status }
+      throw await this.toError(
+        response,
+        (http) => new ArkeHttpError(`Failed to fetch reprocess status: ${response.statusText}`, 'STATUS_ERROR', http)
       );
     }
 
-    return response.json();
+    return this.parseJson(response, (status) => isRecord(status) && typeof status.status === 'string');
+  }
+
+  /**
+   * Watch reprocessing status, yielding each update until DONE or ERROR
+   *
+   * Updates are pushed over Server-Sent Events, or a WebSocket when the
+   * runtime cannot stream responses or the service does not offer SSE. When
+   * neither is available, or the stream drops before the batch finishes, the
+   * status URL is polled instead.
+   *
+   * @param statusUrl - The status URL returned from reprocess()
+   */
+  async *watchReprocessStatus(
+    statusUrl: string,
+    options?: StatusStreamOptions
+  ): AsyncGenerator<ReprocessStatus> {
+    const mode = options?.mode ?? this.statusStream;
+    let streamed = false;
+
+    if (mode !== 'poll') {
+      try {
+        const messages = await this.openStatusStream(statusUrl, mode, options?.signal);
+        for await (const message of messages ?? []) {
+          const status = parseStatusMessage(message);
+          if (!status) continue;
+          streamed = true;
+          yield status;
+          if (isTerminalStatus(status)) return;
+        }
+      } catch (error) {
+        if (error instanceof CancelledError) throw error;
+        // Stream failed: continue by polling
+      }
+    }
+
+    let isFirstPoll = !streamed;
+    while (true) {
+      if (!isFirstPoll) {
+        await sleep(options?.intervalMs ?? 2000, options?.signal);
+      }
+      const status = await this.getReprocessStatus(statusUrl, isFirstPoll, options);
+      isFirstPoll = false;
+      yield status;
+      if (isTerminalStatus(status)) return;
+    }
+  }
+
+  /**
+   * Open a push channel for status updates, yielding raw message payloads.
+   * Resolves to null when no streaming channel is available; a plain status
+   * from a service without SSE support is passed on as a single message.
+   *
+   * In 'auto' mode SSE is tried first, then a WebSocket.
+   */
+  private async openStatusStream(
+    statusUrl: string,
+    mode: Exclude<StatusStreamMode, 'poll'>,
+    signal?: AbortSignal
+  ): Promise<AsyncIterable<string> | Iterable<string> | null> {
+    const url = this.statusUrlTransform ? this.statusUrlTransform(statusUrl) : statusUrl;
+    const canStreamResponses = typeof ReadableStream !== 'undefined';
+
+    if (mode === 'sse' || (mode === 'auto' && canStreamResponses)) {
+      const events = await this.openEventStream(url, signal);
+      if (events || mode === 'sse') {
+        return events;
+      }
+    }
+
+    return this.openStatusSocket(url, signal);
+  }
+
+  /**
+   * Request the status URL as Server-Sent Events, or null if the service
+   * does not stream it
+   */
+  private async openEventStream(
+    url: string,
+    signal?: AbortSignal
+  ): Promise<AsyncIterable<string> | Iterable<string> | null> {
+    const response = await this.send('watchReprocessStatus', url, {
+      headers: { Accept: 'text/event-stream' },
+      signal,
+    });
+    const contentType = response.headers.get('Content-Type') ?? '';
+    if (response.ok && contentType.includes('application/json')) {
+      return [await response.text()];
+    }
+    if (!response.ok || !response.body || !contentType.includes('text/event-stream')) {
+      await response.body?.cancel().catch(() => undefined);
+      return null;
+    }
+    return mapAsync(readEventStream(response.body, signal), (event) =>
+      event.event === 'status' || event.event === 'message' ? event.data : undefined
+    );
+  }
+
+  /**
+   * Open a WebSocket to the status URL, or null if none can be used
+   */
+  private async openStatusSocket(url: string, signal?: AbortSignal): Promise<AsyncIterable<string> | null> {
+    if (typeof WebSocket === 'undefined') {
+      return null;
+    }
+
+    // Browsers cannot set headers on a WebSocket handshake, so the token
+    // goes where webSocketAuth allows, or the WebSocket is not used
+    const socketUrl = new URL(url.replace(/^http/, 'ws'));
+    const token = await this.resolveToken();
+    let protocols: string[] | undefined;
+    if (token) {
+      if (this.webSocketAuth === 'protocol') {
+        protocols = [`bearer.${token}`];
+      } else if (this.webSocketAuth === 'query') {
+        socketUrl.searchParams.set('access_token', token);
+      } else {
+        return null;
+      }
+    }
+    const socket = await openWebSocket(socketUrl.toString(), { protocols, signal });
+    return socket ? readWebSocket(socket, signal) : null;
+  }
+}
+
+/**
+ * The `message` field of a JSON error body, if any
+ */
+function bodyMessage(http: HttpErrorDetails): string | undefined {
+  try {
+    return JSON.parse(http.responseBody ?? '').message || undefined;
+  } catch {
+    return undefined;
   }
 }
+
+/**
+ * Whether a status is final (the batch will not change further)
+ */
+function isTerminalStatus(status: ReprocessStatus): boolean {
+  return status.status === 'DONE' || status.status === 'ERROR' || status.status === 'CANCELLED';
+}
+
+/**
+ * Parse a pushed status message; ignores payloads that are not a status
+ */
+function parseStatusMessage(message: string): ReprocessStatus | undefined {
+  try {
+    const status = JSON.parse(message);
+    return typeof status?.status === 'string' ? status : undefined;
+  } catch {
+    return undefined;
+  }
+}
+
+/**
+ * Map an async iterable, dropping undefined results
+ */
+async function* mapAsync<T, U>(source: AsyncIterable<T>, map: (item: T) => U | undefined): AsyncGenerator<U> {
+  for await (const item of source) {
+    const mapped = map(item);
+    if (mapped !== undefined) yield mapped;
+  }
+}
+
+/**
+ * Normalize the configured transport; defaults to the global fetch,
+ * resolved per request so it can be replaced at runtime.
+ */
+function resolveTransport(transport?: FetchLike | ArkeTransport): ArkeTransport {
+  if (!transport) {
+    return { request: (url, init) => fetch(url, init) };
+  }
+  if (typeof transport === 'function') {
+    return { request: transport };
+  }
+  return transport;
+}
+
+/**
+ * Whether the service refused a request without processing it
+ */
+function isRejectedBeforeProcessing(response: Response): boolean {
+  return response.status === 429 || response.status === 503;
+}
+
+/**
+ * Parse a Retry-After header (seconds or HTTP date) into milliseconds
+ */
+function parseRetryAfter(value: string | null): number | undefined {
+  if (!value) return undefined;
+
+  const seconds = Number(value);
+  if (!Number.isNaN(seconds)) {
+    return Math.max(0, seconds * 1000);
+  }
+
+  const date = Date.parse(value);
+  return Number.isNaN(date) ? undefined : Math.max(0, date - Date.now());
+}
+
+/**
+ * Whether a parsed JSON value is an object (not null or an array)
+ */
+function isRecord(value: unknown): value is Record<string, unknown> {
+  return typeof value === 'object' && value !== null && !Array.isArray(value);
+}
+
+/**
+ * Shape check for entity manifests
+ */
+function isEntity(value: unknown): boolean {
+  return isRecord(value) && typeof value.pi === 'string' && isRecord(value.components);
+}
@@ -0,0 +1,123 @@
+/**
+ * Content helpers - content-type detection and binary normalization
+ */
+
+import type { BinaryContent } from './types';
+
+/** Content types by file extension */
+const CONTENT_TYPES: Record<string, string> = {
+  txt: 'text/plain',
+  md: 'text/markdown',
+  csv: 'text/csv',
+  html: 'text/html',
+  htm: 'text/html',
+  json: 'application/json',
+  jsonld: 'application/ld+json',
+  xml: 'application/xml',
+  svg: 'image/svg+xml',
+  jpg: 'image/jpeg',
+  jpeg: 'image/jpeg',
+  png: 'image/png',
+  gif: 'image/gif',
+  webp: 'image/webp',
+  tif: 'image/tiff',
+  tiff: 'image/tiff',
+  jp2: 'image/jp2',
+  pdf: 'application/pdf',
+  mp3: 'audio/mpeg',
+  wav: 'audio/wav',
+  mp4: 'video/mp4',
+  zip: 'application/zip',
+};
+
+/**
+ * Content type for a filename, by extension
+ */
+export function detectContentType(filename: string): string | undefined {
+  const dot = filename.lastIndexOf('.');
+  return dot === -1 ? undefined : CONTENT_TYPES[filename.slice(dot + 1).toLowerCase()];
+}
+
+/**
+ * Content type an upload is sent with: the explicit type, then a Blob's own
+ * type, then the filename's, then a text or binary fallback
+ */
+export function resolveContentType(
+  content: string | BinaryContent,
+  filename: string,
+  contentType?: string
+): string {
+  return (
+    contentType ||
+    (content instanceof Blob && content.type) ||
+    detectContentType(filename) ||
+    (typeof content === 'string' ? 'text/plain' : 'application/octet-stream')
+  );
+}
+
+/**
+ * Whether a content type holds text that can be diffed and fed to prompts
+ */
+export function isTextContentType(contentType: string): boolean {
+  const type = contentType.split(';')[0].trim().toLowerCase();
+  return (
+    type.startsWith('text/') ||
+    type === 'application/json' ||
+    type === 'application/xml' ||
+    type.endsWith('+json') ||
+    type.endsWith('+xml')
+  );
+}
+
+/**
+ * Normalize text or binary content into a Blob of the given type
+ */
+export async function toBlob(content: string | BinaryContent, contentType: string): Promise<Blob> {
+  if (content instanceof Blob) {
+    return content.type === contentType ? content : content.slice(0, content.size, contentType);
+  }
+  if (typeof content === 'string') {
+    return new Blob([content], { type: contentType });
+  }
+  if (content instanceof Uint8Array) {
+    // Copied: the view may be backed by a SharedArrayBuffer, which Blob rejects
+    return new Blob([new Uint8Array(content)], { type: contentType });
+  }
+  // Streams are read once, so buffer them for uploads that may be retried
+  const blob = await new Response(content).blob();
+  return blob.slice(0, blob.size, contentType);
+}
+
+/**
+ * Read binary content into memory
+ */
+export async function toBytes(content: BinaryContent): Promise<Uint8Array> {
+  if (content instanceof Uint8Array) {
+    return content;
+  }
+  return new Uint8Array(await new Response(content).arrayBuffer());
+}
+
+/**
+ * Base64-encode bytes
+ */
+export function encodeBase64(bytes: Uint8Array): string {
+  let binary = '';
+  // Chunked to stay under the argument limit of String.fromCharCode
+  for (let i = 0; i < bytes.length; i += 0x8000) {
+    binary += String.fromCharCode(...bytes.subarray(i, i + 0x8000));
+  }
+  return btoa(binary);
+}
+
+/**
+ * Decode base64 into bytes
+ */
+export function decodeBase64(text: string): Uint8Array {
+  const binary = atob(text);
+  const bytes = new Uint8Array(binary.length);
+  for (let i = 0; i < binary.length; i++) {
+    bytes[i] = binary.charCodeAt(i);
+  }
+  return bytes;
+}
@@ -3,7 +3,22 @@
  */
 
 import * as Diff from 'diff';
-import type { TextDiff, ComponentDiff, Correction } from './types';
+import type {
+  TextDiff,
+  ComponentChange,
+  ComponentDiff,
+  Correction,
+  MergeConflictHunk,
+  MergeResult,
+} from './types';
+
+/** A replacement of base lines [start, end) with `lines` */
+interface ChangeRegion {
+  side: 'local' | 'remote';
+  start: number;
+  end: number;
+  lines: string[];
+}
 
 export class DiffEngine {
   /**
@@ -68,17 +83,25 @@ export class DiffEngine {
 
   /**
    * Create a ComponentDiff from original and modified content
+   *
+   * @param change - Whether the component is new, edited or deleted. Added
+   *   and removed components always count as changed.
    */
   static createComponentDiff(
     componentName: string,
     original: string,
-    modified: string
+    modified: string,
+    change: ComponentChange = 'modified'
   ): ComponentDiff {
     const diffs = this.diff(original, modified);
-    const hasChanges = diffs.length > 0;
+    const hasChanges = change !== 'modified' || diffs.length > 0;
 
     let summary: string;
-    if (!hasChanges) {
+    if (change === 'added') {
+      summary = 'New component';
+    } else if (change === 'removed') {
+      summary = 'Component removed';
+    } else if (!hasChanges) {
       summary = 'No changes';
     } else {
       const additions = diffs.filter((d) => d.type === 'addition').length;
@@ -91,12 +114,30 @@ export class DiffEngine {
 
     return {
       componentName,
+      change,
       diffs,
       summary,
       hasChanges,
     };
   }
 
+  /**
+   * Create a ComponentDiff for replaced binary content, which is not diffed
+   */
+  static createBinaryComponentDiff(
+    componentName: string,
+    change: Exclude<ComponentChange, 'removed'> = 'modified'
+  ): ComponentDiff {
+    return {
+      componentName,
+      change,
+      binary: true,
+      diffs: [],
+      summary: change === 'added' ? 'New binary component' : 'Binary content replaced',
+      hasChanges: true,
+    };
+  }
+
   /**
    * Format diffs for AI prompt consumption
    */
@@ -131,8 +172,17 @@ export class DiffEngine {
     for (const cd of componentDiffs) {
       if (!cd.hasChanges) continue;
 
-      sections.push(`## Changes to ${cd.componentName}:`);
-      sections.push(this.formatForPrompt(cd.diffs));
+      if (cd.change === 'removed') {
+        sections.push(`## Removed component ${cd.componentName}`);
+      } else if (cd.binary) {
+        sections.push(`## ${cd.change === 'added' ? 'New' : 'Replaced'} binary component ${cd.componentName}`);
+      } else if (cd.change === 'added') {
+        sections.push(`## New component ${cd.componentName}:`);
+        sections.push(this.formatForPrompt(cd.diffs));
+      } else {
+        sections.push(`## Changes to ${cd.componentName}:`);
+        sections.push(this.formatForPrompt(cd.diffs));
+      }
       sections.push('');
     }
 
@@ -190,6 +240,76 @@ export class DiffEngine {
     return corrections;
   }
 
+  /**
+   * Three-way line merge of two edits made independently to the same base
+   *
+   * Changes touching different lines are combined; identical changes on both
+   * sides are taken once. Overlapping changes that differ are reported as
+   * conflicts and wrapped in conflict markers in `merged`.
+   */
+  static merge3(base: string, local: string, remote: string): MergeResult {
+    const baseLines = base.split('\n');
+    const regions = [
+      ...this.changeRegions(baseLines, local.split('\n'), 'local'),
+      ...this.changeRegions(baseLines, remote.split('\n'), 'remote'),
+    ].sort((a, b) => a.start - b.start || a.end - b.end);
+
+    const output: string[] = [];
+    const conflicts: MergeConflictHunk[] = [];
+    let position = 0;
+    let i = 0;
+
+    while (i < regions.length) {
+      // Group regions that overlap, or that insert at the same point
+      const group = [regions[i++]];
+      let groupEnd = group[0].end;
+      while (i < regions.length) {
+        const next = regions[i];
+        const last = group[group.length - 1];
+        const touches =
+          next.start === groupEnd && (next.start === next.end || last.start === last.end);
+        if (next.start >= groupEnd && !touches) break;
+        group.push(next);
+        groupEnd = Math.max(groupEnd, next.end);
+        i++;
+      }
+
+      const groupStart = group[0].start;
+      output.push(...baseLines.slice(position, groupStart));
+      position = groupEnd;
+
+      const sides = new Set(group.map((r) => r.side));
+      if (sides.size === 1) {
+        for (const region of group) output.push(...region.lines);
+        continue;
+      }
+
+      const localLines = this.applyRegions(baseLines, group, 'local', groupStart, groupEnd);
+      const remoteLines = this.applyRegions(baseLines, group, 'remote', groupStart, groupEnd);
+
+      if (localLines.join('\n') === remoteLines.join('\n')) {
+        output.push(...localLines);
+        continue;
+      }
+
+      conflicts.push({
+        baseLine: groupStart + 1,
+        base: baseLines.slice(groupStart, groupEnd).join('\n'),
+        local: localLines.join('\n'),
+        remote: remoteLines.join('\n'),
+      });
+      output.push('<<<<<<< local', ...localLines, '=======', ...remoteLines, '>>>>>>> remote');
+    }
+
+    output.push(...baseLines.slice(position));
+
+    return {
+      merged: output.join('\n'),
+      clean: conflicts.length === 0,
+      conflicts,
+    };
+  }
+
   /**
    * Check if two strings are meaningfully different
    * (ignoring whitespace differences)
@@ -199,4 +319,59 @@ export class DiffEngine {
     const normalizedModified = modified.replace(/\s+/g, ' ').trim();
     return normalizedOriginal !== normalizedModified;
   }
+
+  /**
+   * Collect the regions of `base` replaced in `other`
+   */
+  private static changeRegions(
+    base: string[],
+    other: string[],
+    side: ChangeRegion['side']
+  ): ChangeRegion[] {
+    const regions: ChangeRegion[] = [];
+    let current: ChangeRegion | null = null;
+    let position = 0;
+
+    for (const change of Diff.diffArrays(base, other)) {
+      const count = change.value.length;
+      if (change.removed) {
+        current ??= { side, start: position, end: position, lines: [] };
+        current.end += count;
+        position += count;
+      } else if (change.added) {
+        current ??= { side, start: position, end: position, lines: [] };
+        current.lines.push(...change.value);
+      } else {
+        if (current) regions.push(current);
+        current = null;
+        position += count;
+      }
+    }
+    if (current) regions.push(current);
+
+    return regions;
+  }
+
+  /**
+   * Apply one side's regions to base lines [start, end)
+   */
+  private static applyRegions(
+    base: string[],
+    regions: ChangeRegion[],
+    side: ChangeRegion['side'],
+    start: number,
+    end: number
+  ): string[] {
+    const lines: string[] = [];
+    let position = start;
+
+    for (const region of regions) {
+      if (region.side !== side) continue;
+      lines.push(...base.slice(position, region.start), ...region.lines);
+      position = region.end;
+    }
+    lines.push(...base.slice(position, end));
+
+    return lines;
+  }
 }
@@ -0,0 +1,38 @@
+/**
+ * Typed event emitter used by EditSession
+ */
+
+export type EventListener<T> = (payload: T) => void;
+
+export class TypedEventEmitter<Events extends object> {
+  private listeners: { [K in keyof Events]?: Set<EventListener<Events[K]>> } = {};
+
+  /**
+   * Subscribe to an event
+   *
+   * @returns A function that removes the listener
+   */
+  on<K extends keyof Events>(event: K, listener: EventListener<Events[K]>): () => void {
+    const listeners = this.listeners[event] ?? new Set();
+    listeners.add(listener);
+    this.listeners[event] = listeners;
+    return () => this.off(event, listener);
+  }
+
+  /**
+   * Remove a listener
+   */
+  off<K extends keyof Events>(event: K, listener: EventListener<Events[K]>): void {
+    this.listeners[event]?.delete(listener);
+  }
+
+  /**
+   * Call every listener of an event with the payload
+   */
+  emit<K extends keyof Events>(event: K, payload: Events[K]): void {
+    // Copied so listeners can unsubscribe while being called
+    for (const listener of [...(this.listeners[event] ?? [])]) {
+      listener(payload);
+    }
+  }
+}
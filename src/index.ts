@@ -13,17 +13,42 @@ export { ArkeClient } from './client';
 export { EditSession } from './session';
 export { DiffEngine } from './diff';
 export { PromptBuilder } from './prompts';
+export { ContentCache, IndexedDBCacheStorage } from './cache';
+export { detectContentType, isTextContentType } from './content';
 
 // Types
 export type {
   // Configuration
   ArkeClientConfig,
+  AuthTokenProvider,
   EditMode,
+  ConflictStrategy,
   EditSessionConfig,
+  // Content Cache
+  ContentCacheStorage,
+  ContentCacheOptions,
+  CacheStats,
+  // Transport
+  RequestOptions,
+  RetryPolicy,
+  FetchLike,
+  ArkeTransport,
+  ArkeOperation,
+  ArkeRequest,
+  RequestInterceptor,
+  ResponseInterceptor,
   // Entity
   Entity,
   EntityUpdate,
   EntityVersion,
+  VersionHistoryEntry,
+  VersionHistoryPage,
+  EntitySnapshot,
+  BinaryContent,
+  UploadOptions,
+  EntityTreeNode,
+  AncestorOptions,
+  TraversalOptions,
   // Edit
   RegeneratableComponent,
   EditScope,
@@ -31,7 +56,11 @@ export type {
   // Diff
   DiffType,
   TextDiff,
+  ComponentChange,
   ComponentDiff,
+  MergeConflictHunk,
+  MergeResult,
+  ComponentConflict,
   // Prompt
   PromptTarget,
   EntityContext,
@@ -43,20 +72,54 @@ export type {
   ReprocessPhase,
   ReprocessProgress,
   ReprocessStatus,
+  EntityReprocessStatus,
+  StatusStreamMode,
+  StatusStreamOptions,
   // Result
   SaveResult,
   EditResult,
+  RollbackOptions,
+  BatchRollbackOptions,
   EditPhase,
   EditStatus,
   PollOptions,
   ChangeSummary,
+  EntityImpact,
+  ImpactEstimate,
+  PlannedUpload,
+  PlannedEntityUpdate,
+  PlannedReprocess,
+  PlannedOperation,
+  SubmitPlan,
+  // History & events
+  HistoryState,
+  EditSessionEvents,
+  // Drafts
+  DraftBinaryContent,
+  SessionDraft,
+  RestoredSession,
+  // Errors
+  HttpErrorDetails,
 } from './types';
 
 // Errors
 export {
   ArkeEditError,
   EntityNotFoundError,
+  VersionNotFoundError,
   CASConflictError,
-  ReprocessError,
+  MergeConflictError,
+  BatchRollbackError,
+  CancelledError,
   ValidationError,
+  // HTTP errors
+  ArkeHttpError,
+  AuthenticationError,
+  AuthorizationError,
+  RateLimitError,
+  PayloadTooLargeError,
+  ServiceUnavailableError,
+  NetworkError,
+  ReprocessError,
+  MalformedResponseError,
 } from './types';
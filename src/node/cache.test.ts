@@ -0,0 +1,83 @@
+import { afterEach, beforeEach, describe, expect, it } from 'vitest';
+import { mkdir, mkdtemp, readdir, rm, writeFile } from 'node:fs/promises';
+import { tmpdir } from 'node:os';
+import { join } from 'node:path';
+import { ContentCache } from '../cache';
+import { ArkeEditSDK } from '../sdk';
+import { InMemoryArkeBackend } from '../testing';
+import { FileSystemCacheStorage } from './cache';
+
+let directory: string;
+
+beforeEach(async () => {
+  directory = await mkdtemp(join(tmpdir(), 'arke-cache-'));
+});
+
+afterEach(async () => {
+  await rm(directory, { recursive: true, force: true });
+});
+
+describe('FileSystemCacheStorage', () => {
+  it('stores, reads and deletes entries by CID', async () => {
+    const storage = new FileSystemCacheStorage(join(directory, 'cache'));
+    expect(await storage.get('bafyabc')).toBeUndefined();
+
+    await storage.set('bafyabc', 'content');
+    expect(await storage.get('bafyabc')).toBe('content');
+
+    await storage.delete('bafyabc');
+    expect(await storage.get('bafyabc')).toBeUndefined();
+  });
+
+  it('clears only its own entries', async () => {
+    const storage = new FileSystemCacheStorage(directory);
+    await storage.set('bafyabc', 'content');
+    await storage.set('bafydef', 'content');
+    await writeFile(join(directory, 'settings.json'), '{}');
+    await mkdir(join(directory, 'nested'));
+
+    await storage.clear();
+    expect(await storage.get('bafyabc')).toBeUndefined();
+    expect((await readdir(directory)).sort()).toEqual(['nested', 'settings.json']);
+  });
+
+  it('clears a directory that does not exist yet', async () => {
+    await expect(new FileSystemCacheStorage(join(directory, 'missing')).clear()).resolves.toBeUndefined();
+  });
+
+  it('creates the directory again after a failed attempt', async () => {
+    const blocked = join(directory, 'blocked');
+    await writeFile(blocked, '');
+    const storage = new FileSystemCacheStorage(join(blocked, 'cache'));
+    await expect(storage.set('bafyabc', 'content')).rejects.toThrow();
+
+    await rm(blocked);
+    await storage.set('bafyabc', 'content');
+    expect(await storage.get('bafyabc')).toBe('content');
+  });
+
+  it('refuses CIDs that are not safe file names', async () => {
+    const storage = new FileSystemCacheStorage(directory);
+    await storage.set('../escape', 'content');
+    expect(await storage.get('../escape')).toBeUndefined();
+  });
+
+  it('lets a second session read components from the cache', async () => {
+    const backend = new InMemoryArkeBackend();
+    backend.addEntity({ pi: 'ITEM', components: { 'description.md': 'An item.' } });
+    const cache = new ContentCache({ maxEntries: 2, storage: new FileSystemCacheStorage(directory) });
+    const sdk = new ArkeEditSDK({ ...backend.clientConfig, cache });
+    const catRequests = () => backend.requests.filter((r) => r.url.includes('/cat/')).length;
+
+    await sdk.createSession('ITEM').load();
+    const fetched = catRequests();
+    await sdk.createSession('ITEM').load();
+    expect(catRequests()).toBe(fetched);
+
+    // A fresh memory tier still hits the files on disk
+    const persisted = new ContentCache({ storage: new FileSystemCacheStorage(directory) });
+    await new ArkeEditSDK({ ...backend.clientConfig, cache: persisted }).createSession('ITEM').load();
+    expect(catRequests()).toBe(fetched);
+    expect(persisted.getStats().storageHits).toBeGreaterThan(0);
+  });
+});
@@ -0,0 +1,77 @@
+/**
+ * FileSystemCacheStorage - Persistent content cache on disk (Node.js)
+ */
+
+import { mkdir, readdir, readFile, rename, rm, writeFile } from 'node:fs/promises';
+import { join } from 'node:path';
+import type { ContentCacheStorage } from '../types';
+
+/** CIDs are base-encoded; anything else is refused as a file name */
+const SAFE_CID = /^[A-Za-z0-9]+$/;
+
+export class FileSystemCacheStorage implements ContentCacheStorage {
+  private directory: string;
+  private ready: Promise<unknown> | null = null;
+
+  constructor(directory: string) {
+    this.directory = directory;
+  }
+
+  async get(cid: string): Promise<string | undefined> {
+    if (!SAFE_CID.test(cid)) return undefined;
+
+    try {
+      return await readFile(join(this.directory, cid), 'utf8');
+    } catch (error) {
+      if ((error as NodeJS.ErrnoException).code === 'ENOENT') return undefined;
+      throw error;
+    }
+  }
+
+  async set(cid: string, content: string): Promise<void> {
+    if (!SAFE_CID.test(cid)) return;
+
+    await this.ensureDirectory();
+
+    // Write then rename so readers never see a partial file
+    const path = join(this.directory, cid);
+    const temporary = `${path}.${process.pid}.${Date.now()}.tmp`;
+    await writeFile(temporary, content, 'utf8');
+    await rename(temporary, path);
+  }
+
+  async delete(cid: string): Promise<void> {
+    if (!SAFE_CID.test(cid)) return;
+    await rm(join(this.directory, cid), { force: true });
+  }
+
+  /**
+   * Delete the cached entries, leaving the directory and any other files in it
+   */
+  async clear(): Promise<void> {
+    let entries;
+    try {
+      entries = await readdir(this.directory, { withFileTypes: true });
+    } catch (error) {
+      if ((error as NodeJS.ErrnoException).code === 'ENOENT') return;
+      throw error;
+    }
+
+    await Promise.all(
+      entries
+        .filter((entry) => entry.isFile() && SAFE_CID.test(entry.name))
+        .map((entry) => rm(join(this.directory, entry.name), { force: true }))
+    );
+  }
+
+  private ensureDirectory(): Promise<unknown> {
+    if (!this.ready) {
+      this.ready = mkdir(this.directory, { recursive: true });
+      // Let the next call try again instead of failing for good
+      this.ready.catch(() => {
+        this.ready = null;
+      });
+    }
+    return this.ready;
+  }
+}
@@ -0,0 +1,5 @@
+/**
+ * Node.js integrations for Arke Edit SDK
+ */
+
+export { FileSystemCacheStorage } from './cache';
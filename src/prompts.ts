@@ -120,6 +120,12 @@ export class PromptBuilder {
             'and facts identified in the changes.'
         );
         break;
+      case 'reorganization':
+        sections.push(
+          'Regroup the files into child entities so the structure reflects these changes. ' +
+            'Keep existing groupings that the changes do not affect.'
+        );
+        break;
     }
 
     return sections.join('\n');
@@ -140,7 +146,7 @@ export class PromptBuilder {
     );
     sections.push('');
 
-    if (cascadeContext.path.length > 1) {
+    if (cascadeContext.path.length > 0) {
       sections.push(`Cascade path: ${cascadeContext.path.join(' → ')}`);
       sections.push(`Depth: ${cascadeContext.depth}`);
     }
@@ -241,6 +247,11 @@ export class PromptBuilder {
           'Extract entities (people, places, organizations, events) and their relationships. ' +
           'Build a knowledge graph that captures the key facts and connections in the content.'
         );
+      case 'reorganization':
+        return (
+          'Group related files into child entities, such as the pages of one letter or the ' +
+          'items of one folder, so each child can be described on its own.'
+        );
       default:
         return '';
     }
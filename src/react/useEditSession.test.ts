@@ -0,0 +1,126 @@
+// @vitest-environment happy-dom
+
+import { beforeEach, describe, expect, it, vi } from 'vitest';
+import { act, renderHook, waitFor } from '@testing-library/react';
+import { ArkeEditSDK } from '../sdk';
+import { InMemoryArkeBackend } from '../testing';
+import { useEditSession } from './useEditSession';
+
+let backend: InMemoryArkeBackend;
+let sdk: ArkeEditSDK;
+
+beforeEach(() => {
+  backend = new InMemoryArkeBackend();
+  backend.addEntity({ pi: 'ITEM', components: { 'description.md': 'An item.' } });
+  sdk = new ArkeEditSDK(backend.clientConfig);
+});
+
+describe('useEditSession', () => {
+  it('starts a session and tracks undo/redo', async () => {
+    const { result } = renderHook(() => useEditSession(sdk, 'ITEM'));
+    expect(result.current.session).toBeNull();
+
+    await act(() => result.current.startSession('manual-only'));
+    expect(result.current.loading).toBe(false);
+    expect(result.current.session?.getEntity().pi).toBe('ITEM');
+    expect(result.current.history.canUndo).toBe(false);
+
+    act(() => result.current.setContent('description.md', 'An edited item.'));
+    expect(result.current.history.canUndo).toBe(true);
+    expect(result.current.session?.getDiff()).toHaveLength(1);
+
+    act(() => result.current.undo());
+    expect(result.current.history).toMatchObject({ canUndo: false, canRedo: true });
+    expect(result.current.session?.getDiff()).toHaveLength(0);
+  });
+
+  it('stays loading until the latest startSession() finishes', async () => {
+    let release!: () => void;
+    const gate = new Promise<void>((resolve) => (release = resolve));
+    const gated = new ArkeEditSDK({
+      ...backend.clientConfig,
+      transport: (url, init) =>
+        new Promise((resolve, reject) => {
+          if (init.signal?.aborted) reject(init.signal.reason);
+          init.signal?.addEventListener('abort', () => reject(init.signal!.reason));
+          void gate.then(() => resolve(backend.fetch(url, init)));
+        }),
+    });
+    const { result } = renderHook(() => useEditSession(gated, 'ITEM'));
+
+    let first!: Promise<void>;
+    let second!: Promise<void>;
+    act(() => {
+      first = result.current.startSession('manual-only');
+      second = result.current.startSession('manual-with-review');
+    });
+    await act(() => first);
+    expect(result.current.loading).toBe(true);
+
+    release();
+    await act(() => second);
+    expect(result.current.loading).toBe(false);
+    expect(result.current.session?.mode).toBe('manual-with-review');
+  });
+
+  it('submits and reports the final status', async () => {
+    const onSaved = vi.fn();
+    const onComplete = vi.fn();
+    const { result } = renderHook(() => useEditSession(sdk, 'ITEM', { onSaved, onComplete }));
+
+    await act(() => result.current.startSession('hybrid'));
+    act(() => {
+      result.current.setContent('description.md', 'An edited item.');
+      result.current.setPrompt('description', 'Be brief');
+      result.current.setScope({ components: ['description'] });
+    });
+    await act(() => result.current.submit('Edited'));
+
+    expect(onSaved).toHaveBeenCalledWith(expect.objectContaining({ saved: expect.anything() }));
+    expect(result.current.status?.phase).toBe('complete');
+    expect(onComplete).toHaveBeenCalledWith(result.current.status);
+    expect(result.current.saving).toBe(false);
+    expect(backend.getEntity('ITEM')!.ver).toBe(3);
+  });
+
+  it('surfaces load errors', async () => {
+    const onError = vi.fn();
+    const { result } = renderHook(() => useEditSession(sdk, 'MISSING', { onError }));
+
+    await act(() => result.current.startSession('manual-only'));
+    await waitFor(() => expect(result.current.error).not.toBeNull());
+    expect(result.current.session).toBeNull();
+    expect(onError).toHaveBeenCalledOnce();
+  });
+
+  it('ends the session', async () => {
+    const { result } = renderHook(() => useEditSession(sdk, 'ITEM'));
+    await act(() => result.current.startSession('manual-only'));
+
+    act(() => result.current.endSession());
+    expect(result.current.session).toBeNull();
+    expect(result.current.history.canUndo).toBe(false);
+  });
+
+  it('drops a session that finishes loading after endSession()', async () => {
+    let release!: () => void;
+    const gate = new Promise<void>((resolve) => (release = resolve));
+    // A load that completes even though it was aborted
+    const late = sdk.createSession('ITEM', { mode: 'manual-only' });
+    const load = late.load.bind(late);
+    vi.spyOn(late, 'load').mockImplementation(() => gate.then(() => load()));
+    vi.spyOn(sdk, 'createSession').mockReturnValue(late);
+    const { result } = renderHook(() => useEditSession(sdk, 'ITEM'));
+
+    let started!: Promise<void>;
+    act(() => {
+      started = result.current.startSession('manual-only');
+    });
+    act(() => result.current.endSession());
+
+    release();
+    await act(() => started);
+    expect(result.current.session).toBeNull();
+    expect(result.current.loading).toBe(false);
+  });
+});
@@ -2,14 +2,23 @@
  * React hook for managing edit sessions
  */
 
-import { useState, useCallback, useRef } from 'react';
+import { useState, useCallback, useRef, useEffect, useReducer } from 'react';
 import type { ArkeEditSDK } from '../sdk';
 import type { EditSession } from '../session';
-import type { EditMode, EditStatus, EditResult, EditScope, RegeneratableComponent } from '../types';
+import type {
+  EditMode,
+  EditStatus,
+  EditResult,
+  EditScope,
+  HistoryState,
+  PromptTarget,
+} from '../types';
+import { CancelledError } from '../types';
 
 export interface UseEditSessionOptions {
   onSaved?: (result: EditResult) => void;
   onComplete?: (status: EditStatus) => void;
+  onCancelled?: (status: EditStatus) => void;
   onError?: (error: Error) => void;
 }
 
@@ -20,19 +29,28 @@ export interface UseEditSessionReturn {
   saving: boolean;
   status: EditStatus | null;
   error: string | null;
+  history: HistoryState;
 
   // Actions
   startSession: (mode: EditMode) => Promise<void>;
   endSession: () => void;
   submit: (note: string) => Promise<EditResult | undefined>;
+  cancelReprocess: () => Promise<void>;
 
   // Convenience methods that delegate to session
   setPrompt: (target: string, prompt: string) => void;
   setContent: (component: string, content: string) => void;
   addCorrection: (original: string, corrected: string, sourceFile?: string) => void;
   setScope: (scope: Partial<EditScope>) => void;
+  undo: () => void;
+  redo: () => void;
 }
 
+const EMPTY_HISTORY: HistoryState = { canUndo: false, canRedo: false };
+
+/** Session events that change what the UI derives from the session (diffs, summaries) */
+const EDIT_EVENTS = ['loaded', 'contentChanged', 'promptChanged', 'correctionsChanged', 'scopeChanged'] as const;
+
 export function useEditSession(
   sdk: ArkeEditSDK,
   pi: string,
@@ -43,33 +61,64 @@ export function useEditSession(
   const [saving, setSaving] = useState(false);
   const [status, setStatus] = useState<EditStatus | null>(null);
   const [error, setError] = useState<string | null>(null);
+  const [history, setHistory] = useState<HistoryState>(EMPTY_HISTORY);
+  const [, rerender] = useReducer((revision: number) => revision + 1, 0);
 
   // Use ref to avoid stale closures
   const optionsRef = useRef(options);
   optionsRef.current = options;
 
+  // Cancels in-flight loads, submits and polling when the session ends or on unmount
+  const abortRef = useRef<AbortController | null>(null);
+
+  useEffect(() => () => abortRef.current?.abort(), []);
+
+  // Track undo/redo availability for the active session
+  useEffect(() => {
+    setHistory(session?.getHistory() ?? EMPTY_HISTORY);
+    return session?.on('historyChanged', setHistory);
+  }, [session]);
+
+  // Re-render when the session's edits change so diffs and summaries stay current
+  useEffect(() => {
+    if (!session) return;
+    const unsubscribes = EDIT_EVENTS.map((event) => session.on(event, rerender));
+    return () => unsubscribes.forEach((unsubscribe) => unsubscribe());
+  }, [session]);
+
   const startSession = useCallback(
     async (mode: EditMode) => {
+      abortRef.current?.abort();
+      const controller = new AbortController();
+      abortRef.current = controller;
+
       setLoading(true);
       setError(null);
 
       try {
         const newSession = sdk.createSession(pi, { mode });
-        await newSession.load();
+        await newSession.load({ signal: controller.signal });
+        // Aborted by endSession() or a newer startSession() as the load finished
+        if (controller.signal.aborted) return;
         setSession(newSession);
       } catch (e) {
+        if (e instanceof CancelledError) return;
         const err = e instanceof Error ? e : new Error(String(e));
         setError(err.message);
         optionsRef.current?.onError?.(err);
       } finally {
-        setLoading(false);
+        // A newer startSession() owns the loading state once it aborts this one
+        if (abortRef.current === controller) setLoading(false);
       }
     },
     [sdk, pi]
   );
 
   const endSession = useCallback(() => {
+    abortRef.current?.abort();
+    abortRef.current = null;
     setSession(null);
+    setLoading(false);
     setStatus(null);
     setError(null);
   }, []);
@@ -81,11 +130,13 @@ export function useEditSession(
         return undefined;
       }
 
+      const signal = abortRef.current?.signal;
+
       setSaving(true);
       setError(null);
 
       try {
-        const result = await session.submit(note);
+        const result = await session.submit(note, { signal });
         optionsRef.current?.onSaved?.(result);
 
         // Start polling if reprocessing
@@ -94,10 +145,15 @@ export function useEditSession(
 
           const finalStatus = await session.waitForCompletion({
             onProgress: setStatus,
+            signal,
           });
 
           setStatus(finalStatus);
-          optionsRef.current?.onComplete?.(finalStatus);
+          if (finalStatus.phase === 'cancelled') {
+            optionsRef.current?.onCancelled?.(finalStatus);
+          } else {
+            optionsRef.current?.onComplete?.(finalStatus);
+          }
         } else {
           const completeStatus: EditStatus = { phase: 'complete', saveComplete: true };
           setStatus(completeStatus);
@@ -106,6 +162,7 @@ export function useEditSession(
 
         return result;
       } catch (e) {
+        if (e instanceof CancelledError) return undefined;
         const err = e instanceof Error ? e : new Error(String(e));
         setError(err.message);
         setStatus({ phase: 'error', saveComplete: false, error: err.message });
@@ -118,10 +175,24 @@ export function useEditSession(
     [session]
   );
 
+  // Stops the batch; the pending submit() resolves with the cancelled status
+  const cancelReprocess = useCallback(async () => {
+    if (!session) return;
+
+    try {
+      await session.cancelReprocess({ signal: abortRef.current?.signal });
+    } catch (e) {
+      if (e instanceof CancelledError) return;
+      const err = e instanceof Error ? e : new Error(String(e));
+      setError(err.message);
+      optionsRef.current?.onError?.(err);
+    }
+  }, [session]);
+
   // Convenience methods
   const setPrompt = useCallback(
     (target: string, prompt: string) => {
-      session?.setPrompt(target as RegeneratableComponent | 'general', prompt);
+      session?.setPrompt(target as PromptTarget, prompt);
     },
     [session]
   );
@@ -147,18 +218,30 @@ export function useEditSession(
     [session]
   );
 
+  const undo = useCallback(() => {
+    session?.undo();
+  }, [session]);
+
+  const redo = useCallback(() => {
+    session?.redo();
+  }, [session]);
+
   return {
     session,
     loading,
     saving,
     status,
     error,
+    history,
     startSession,
     endSession,
     submit,
+    cancelReprocess,
     setPrompt,
     setContent,
     addCorrection,
     setScope,
+    undo,
+    redo,
   };
 }
@@ -0,0 +1,265 @@
+import { beforeEach, describe, expect, it } from 'vitest';
+import { ArkeEditSDK } from './sdk';
+import { InMemoryArkeBackend } from './testing';
+import { BatchRollbackError, CASConflictError, MergeConflictError, ValidationError } from './types';
+
+let backend: InMemoryArkeBackend;
+let sdk: ArkeEditSDK;
+
+beforeEach(() => {
+  backend = new InMemoryArkeBackend();
+  backend.addEntity({ pi: 'COLLECTION', components: { 'description.md': 'A collection.' } });
+  backend.addEntity({ pi: 'CHILD', parent_pi: 'COLLECTION', components: { 'description.md': 'A child.' } });
+  backend.addEntity({
+    pi: 'GRANDCHILD',
+    parent_pi: 'CHILD',
+    components: { 'description.md': 'Letter written in 1895.' },
+  });
+  sdk = new ArkeEditSDK(backend.clientConfig);
+});
+
+describe('tree traversal', () => {
+  beforeEach(() => {
+    backend.addEntity({ pi: 'SIBLING', parent_pi: 'COLLECTION' });
+    backend.addEntity({ pi: 'NEPHEW', parent_pi: 'SIBLING' });
+  });
+
+  it('lists ancestors up to the root or below stopAtPi', async () => {
+    expect((await sdk.getAncestors('GRANDCHILD')).map((e) => e.pi)).toEqual(['CHILD', 'COLLECTION']);
+    expect((await sdk.getAncestors('GRANDCHILD', { stopAtPi: 'COLLECTION' })).map((e) => e.pi)).toEqual(['CHILD']);
+  });
+
+  it('walks descendants breadth-first', async () => {
+    const visited: string[] = [];
+    for await (const node of sdk.walkDescendants('COLLECTION', { concurrency: 2 })) {
+      visited.push(`${node.entity.pi}@${node.depth}`);
+    }
+    expect(visited).toEqual(['COLLECTION@0', 'CHILD@1', 'SIBLING@1', 'GRANDCHILD@2', 'NEPHEW@2']);
+  });
+
+  it('builds a tree limited by maxDepth', async () => {
+    const tree = await sdk.getTree('COLLECTION', { maxDepth: 1 });
+    expect(tree.children.map((c) => c.entity.pi)).toEqual(['CHILD', 'SIBLING']);
+    expect(tree.children.every((c) => c.children.length === 0)).toBe(true);
+  });
+});
+
+describe('versions and rollback', () => {
+  async function editAndRegenerate() {
+    const session = sdk.createSession('GRANDCHILD', { mode: 'manual-with-review' });
+    await session.load();
+    session.setContent('description.md', 'Letter written in 1985.');
+    session.setScope({ components: ['description'], cascade: true, stopAtPi: 'COLLECTION' });
+    const result = await session.submit('Corrected date');
+    await session.waitForCompletion({ intervalMs: 0 });
+    return { session, result };
+  }
+
+  it('lists history newest first and reads old versions', async () => {
+    const { session } = await editAndRegenerate();
+    expect((await session.getVersionHistory()).map((v) => v.ver)).toEqual([3, 2, 1]);
+    expect((await session.loadVersion(1)).components['description.md']).toBe('Letter written in 1895.');
+  });
+
+  it('rolls back a batch across the cascade, keeping the manual edit', async () => {
+    const { result } = await editAndRegenerate();
+    const rolledBack = await sdk.rollbackBatch(result.reprocess!);
+    expect(rolledBack).toHaveLength(2);
+    expect(backend.getComponent('CHILD', 'description.md')).toBe('A child.');
+    expect(backend.getComponent('GRANDCHILD', 'description.md')).toBe('Letter written in 1985.');
+  });
+
+  it('restores only the components the batch regenerated', async () => {
+    backend.addEntity({
+      pi: 'LETTER',
+      components: { 'description.md': 'A letter.', 'pinax.json': '{}' },
+    });
+    const human = sdk.createSession('LETTER', { mode: 'manual-only' });
+    await human.load();
+    human.setContent('pinax.json', '{"human":true}');
+    await human.submit('Human edit');
+
+    const session = sdk.createSession('LETTER', { mode: 'ai-prompt' });
+    await session.load();
+    session.setScope({ components: ['description'] });
+    const result = await session.submit('Regenerate');
+    await session.waitForCompletion({ intervalMs: 0 });
+
+    await sdk.rollbackBatch(result.reprocess!);
+    const write = backend.requests.filter((r) => r.method === 'POST' && r.url.includes('/LETTER/versions')).pop();
+    expect(Object.keys((write?.body as { components: object }).components)).toEqual(['description.md']);
+    expect(backend.getComponent('LETTER', 'description.md')).toBe('A letter.');
+    expect(backend.getComponent('LETTER', 'pinax.json')).toBe('{"human":true}');
+  });
+
+  it('refuses to roll back a batch once an entity has moved on', async () => {
+    const { result } = await editAndRegenerate();
+    const editor = sdk.createSession('CHILD', { mode: 'manual-only' });
+    await editor.load();
+    editor.setContent('description.md', 'A child, edited by hand.');
+    await editor.submit('Human edit');
+    const versions = backend.getVersions('GRANDCHILD').length;
+
+    await expect(sdk.rollbackBatch(result.reprocess!)).rejects.toBeInstanceOf(CASConflictError);
+    expect(backend.getVersions('GRANDCHILD')).toHaveLength(versions);
+    expect(backend.getComponent('CHILD', 'description.md')).toBe('A child, edited by hand.');
+  });
+
+  it('rolls back by version history when the backend reports no per-entity versions', async () => {
+    const progressOnly = new InMemoryArkeBackend({ entityStatus: false });
+    progressOnly.addEntity({ pi: 'COLLECTION', components: { 'description.md': 'A collection.' } });
+    progressOnly.addEntity({ pi: 'CHILD', parent_pi: 'COLLECTION', components: { 'description.md': 'A child.' } });
+    progressOnly.addEntity({ pi: 'ITEM', parent_pi: 'CHILD', components: { 'description.md': 'An item.' } });
+    const progressSdk = new ArkeEditSDK(progressOnly.clientConfig);
+    const regenerate = async () => {
+      const session = progressSdk.createSession('ITEM', { mode: 'manual-with-review' });
+      await session.load();
+      session.setContent('description.md', 'An item, dated 1985.');
+      session.setScope({ components: ['description'], cascade: true, stopAtPi: 'COLLECTION' });
+      const { reprocess } = await session.submit('Dated');
+      await session.waitForCompletion({ intervalMs: 0 });
+      return reprocess!;
+    };
+
+    const rolledBack = await progressSdk.rollbackBatch(await regenerate());
+    expect(rolledBack.map((r) => r.pi)).toEqual(['ITEM', 'CHILD']);
+    expect(progressOnly.getComponent('CHILD', 'description.md')).toBe('A child.');
+    expect(progressOnly.getComponent('ITEM', 'description.md')).toBe('An item, dated 1985.');
+
+    const batch = await regenerate();
+    const editor = progressSdk.createSession('CHILD', { mode: 'manual-only' });
+    await editor.load();
+    editor.setContent('description.md', 'A child, edited by hand.');
+    await editor.submit('Human edit');
+    await expect(progressSdk.rollbackBatch(batch)).rejects.toBeInstanceOf(CASConflictError);
+  });
+
+  it('reports the entities rolled back before a write failed', async () => {
+    const { result } = await editAndRegenerate();
+    backend.failNext({ method: 'POST', path: '/entities/CHILD/versions', status: 503 });
+
+    const error = await sdk.rollbackBatch(result.reprocess!, { retry: false }).catch((e: unknown) => e);
+    expect(error).toBeInstanceOf(BatchRollbackError);
+    expect((error as BatchRollbackError).rolledBack.map((r) => r.pi)).toEqual(['GRANDCHILD']);
+    expect(backend.getEntity('GRANDCHILD')!.ver).toBe(4);
+    expect(backend.getComponent('CHILD', 'description.md')).not.toBe('A child.');
+  });
+
+  it('rolls a session back to an earlier version', async () => {
+    const { session } = await editAndRegenerate();
+    await session.load();
+    const restored = await session.rollback(1, { components: ['description.md'] });
+    expect(restored?.newVersion).toBe(4);
+    expect(session.getComponents()['description.md']).toBe('Letter written in 1895.');
+  });
+
+  it('refuses a session rollback once the entity moved past the loaded version', async () => {
+    const { session } = await editAndRegenerate();
+    await expect(session.rollback(1)).rejects.toBeInstanceOf(CASConflictError);
+    expect(backend.getEntity('GRANDCHILD')!.ver).toBe(3);
+  });
+});
+
+describe('drafts', () => {
+  const cover = new Uint8Array([0x89, 0x50, 0x4e, 0x47, 0x01, 0x02, 0xfe]);
+
+  beforeEach(() => {
+    backend.addEntity({ pi: 'DRAFT', components: { 'description.md': 'Draft entity.', 'notes.txt': 'Notes' } });
+  });
+
+  async function draftJson() {
+    const session = sdk.createSession('DRAFT', { mode: 'manual-with-review' });
+    await session.load();
+    session.setContent('description.md', 'Draft entity, revised.');
+    session.setBinaryContent('cover.png', new Response(cover).body!);
+    session.removeComponent('notes.txt');
+    session.addCorrection('entity', 'entity, revised');
+    session.setPrompt('general', 'Keep it short');
+    session.setScope({ components: ['description'] });
+    return { session, json: JSON.stringify(await session.toDraft()) };
+  }
+
+  it('restores a session that plans the same submit', async () => {
+    const { session, json } = await draftJson();
+    const resumed = await sdk.restoreSession(json);
+    expect(resumed.tipMoved).toBe(false);
+    expect((await resumed.session.plan('Draft')).operations).toEqual((await session.plan('Draft')).operations);
+  });
+
+  it('detects a moved tip and saves after rebasing', async () => {
+    const { json } = await draftJson();
+    const concurrent = sdk.createSession('DRAFT', { mode: 'manual-only' });
+    await concurrent.load();
+    concurrent.setContent('notes.txt', 'Notes, updated');
+    await concurrent.submit('Concurrent edit');
+
+    const moved = await sdk.restoreSession(json);
+    expect(moved.tipMoved).toBe(true);
+    expect(moved.session.getEntity().ver).toBe(1);
+
+    // The draft removes the notes the concurrent edit changed
+    await expect(moved.session.rebase()).rejects.toBeInstanceOf(MergeConflictError);
+    await moved.session.rebase({ 'notes.txt': '' });
+    moved.session.setScope({ components: [] });
+    expect((await moved.session.submit('Restored draft')).saved?.newVersion).toBe(3);
+    expect(backend.getContentBytes(backend.getEntity('DRAFT')!.components['cover.png'])?.bytes).toEqual(cover);
+  });
+
+  it('resumes a pending reprocess with the same history limit', async () => {
+    const session = sdk.createSession('DRAFT', { mode: 'ai-prompt', historyLimit: 1 });
+    await session.load();
+    session.setScope({ components: ['description'] });
+    await session.submit('Regenerate');
+    const draft = await session.toDraft();
+
+    const resumed = sdk.createSession('DRAFT', { mode: 'ai-prompt', historyLimit: draft.historyLimit });
+    const phases: string[] = [];
+    resumed.on('submitPhaseChanged', ({ phase }) => phases.push(phase));
+    await resumed.restoreDraft(draft);
+    expect(phases).toEqual(['reprocessing']);
+    expect((await sdk.restoreSession(draft)).session.historyLimit).toBe(1);
+    expect((await resumed.waitForCompletion({ intervalMs: 0 })).phase).toBe('complete');
+  });
+
+  it('rejects an unsupported draft version', async () => {
+    const { json } = await draftJson();
+    await expect(sdk.restoreSession({ ...JSON.parse(json), version: 2 })).rejects.toBeInstanceOf(ValidationError);
+  });
+
+  it.each([
+    ['not JSON', '{', 'draft'],
+    ['not an object', 'null', 'draft'],
+    ['missing edits', { prompts: undefined }, 'prompts'],
+    ['an unknown mode', { mode: 'freestyle' }, 'mode'],
+    ['malformed corrections', { corrections: [{ original: 'a' }] }, 'corrections'],
+    ['a scope without components', { scope: { cascade: false } }, 'scope'],
+    ['a negative history limit', { historyLimit: -1 }, 'historyLimit'],
+    ['malformed binary content', { binaryContent: { 'cover.png': 'AAAA' } }, 'binaryContent'],
+  ])('rejects a draft that is %s', async (_, change, field) => {
+    const { json } = await draftJson();
+    const draft = typeof change === 'string' ? change : { ...JSON.parse(json), ...change };
+    const error = await sdk.restoreSession(draft).catch((e: unknown) => e);
+    expect(error).toBeInstanceOf(ValidationError);
+    expect((error as ValidationError).details).toEqual({ field });
+  });
+
+  it('validates drafts restored into an existing session', async () => {
+    const { json } = await draftJson();
+    const session = sdk.createSession('DRAFT');
+    const draft = { ...JSON.parse(json), removedComponents: 'notes.txt' };
+    await expect(session.restoreDraft(draft)).rejects.toBeInstanceOf(ValidationError);
+    expect(backend.requests.filter((r) => r.url.endsWith('/entities/DRAFT'))).toHaveLength(1);
+  });
+
+  it.each([
+    ['mode', { mode: 'ai-prompt' }],
+    ['aiReviewEnabled', { mode: 'manual-with-review', aiReviewEnabled: false }],
+    ['conflictStrategy', { mode: 'manual-with-review', conflictStrategy: 'rebase' }],
+    ['historyLimit', { mode: 'manual-with-review', historyLimit: 5 }],
+  ] as const)('rejects a draft saved with another %s', async (field, config) => {
+    const { json } = await draftJson();
+    const error = await sdk.createSession('DRAFT', config).restoreDraft(JSON.parse(json)).catch((e: unknown) => e);
+    expect(error).toBeInstanceOf(ValidationError);
+    expect((error as ValidationError).details).toEqual({ field });
+  });
+});
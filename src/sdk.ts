@@ -3,8 +3,30 @@
  */
 
 import { ArkeClient } from './client';
-import { EditSession } from './session';
-import type { ArkeClientConfig, EditSessionConfig } from './types';
+import { EditSession, validateDraft } from './session';
+import type {
+  AncestorOptions,
+  ArkeClientConfig,
+  BatchRollbackOptions,
+  EditSessionConfig,
+  Entity,
+  EntityReprocessStatus,
+  EntityTreeNode,
+  ReprocessResult,
+  RequestOptions,
+  RestoredSession,
+  SaveResult,
+  SessionDraft,
+  TraversalOptions,
+} from './types';
+import { BatchRollbackError, CASConflictError, ValidationError } from './types';
+
+/** An entity a batch rewrote, and the version it wrote */
+interface RewrittenEntity {
+  pi: string;
+  new_version: number;
+  new_tip: string;
+}
 
 export class ArkeEditSDK {
   private client: ArkeClient;
@@ -24,10 +46,173 @@ export class ArkeEditSDK {
     return new EditSession(this.client, pi, config);
   }
 
+  /**
+   * Restore a session from a draft taken with EditSession.toDraft()
+   *
+   * The session is based on the entity version the draft was taken against;
+   * `tipMoved` reports whether the entity has changed since.
+   *
+   * @param draft - The draft, or its JSON serialization
+   * @throws ValidationError if the draft cannot be parsed, is malformed or has an unsupported version
+   */
+  async restoreSession(draft: SessionDraft | string, options?: RequestOptions): Promise<RestoredSession> {
+    let value: unknown;
+    try {
+      value = typeof draft === 'string' ? JSON.parse(draft) : draft;
+    } catch {
+      throw new ValidationError('Draft is not valid JSON', 'draft');
+    }
+    const parsed = validateDraft(value);
+
+    const session = new EditSession(this.client, parsed.pi, {
+      mode: parsed.mode,
+      aiReviewEnabled: parsed.aiReviewEnabled,
+      conflictStrategy: parsed.conflictStrategy,
+      historyLimit: parsed.historyLimit,
+    });
+    const currentTip = await session.restoreDraft(parsed, options);
+
+    return {
+      session,
+      tipMoved: currentTip !== undefined && currentTip !== parsed.base?.manifest_cid,
+      currentTip,
+    };
+  }
+
+  /**
+   * Fetch the ancestors of an entity, nearest first, up to the root or
+   * below `options.stopAtPi`
+   */
+  getAncestors(pi: string, options?: AncestorOptions): Promise<Entity[]> {
+    return this.client.getAncestors(pi, options);
+  }
+
+  /**
+   * Walk an entity and its descendants breadth-first, yielding tree nodes
+   */
+  walkDescendants(pi: string, options?: TraversalOptions): AsyncGenerator<EntityTreeNode> {
+    return this.client.walkDescendants(pi, options);
+  }
+
+  /**
+   * Fetch an entity and its descendants as a tree
+   */
+  getTree(pi: string, options?: TraversalOptions): Promise<EntityTreeNode> {
+    return this.client.getTree(pi, options);
+  }
+
+  /**
+   * Roll back every entity touched by a reprocess batch
+   *
+   * Uses the versions the batch reports per entity: each entity it rewrote is
+   * restored to the version before (or to `options.versions[pi]`), and only
+   * the components the batch regenerated are restored. Entities the batch has
+   * not rewritten are skipped. If the backend does not report per-entity
+   * versions, the first version each entity got after the batch started is
+   * taken as the one the batch wrote. Every entity must still be at the version the
+   * batch wrote; this is checked before anything is written, and if one has
+   * moved on nothing is restored and CASConflictError is thrown.
+   *
+   * Entities are then restored one at a time. If a write fails partway (a
+   * concurrent edit, a network error), the entities already restored stay
+   * rolled back and BatchRollbackError reports them.
+   *
+   * @param batch - The result returned by reprocess() / submit()
+   * @param options - Components to restore, version note, explicit versions and request options
+   * @returns One SaveResult per entity rolled back
+   * @throws BatchRollbackError if a write fails after the checks
+   */
+  async rollbackBatch(batch: ReprocessResult, options?: BatchRollbackOptions): Promise<SaveResult[]> {
+    const requestOptions: RequestOptions = { signal: options?.signal, retry: options?.retry };
+    const status = await this.client.getReprocessStatus(batch.status_url, false, requestOptions);
+    let rewritten: RewrittenEntity[];
+    if (status.entities) {
+      rewritten = status.entities.filter(
+        (entity): entity is EntityReprocessStatus & RewrittenEntity =>
+          entity.new_version !== undefined && entity.new_tip !== undefined
+      );
+    } else if (status.started_at) {
+      rewritten = await this.rewrittenSince(batch.entity_pis, Date.parse(status.started_at), requestOptions);
+    } else {
+      throw new ValidationError(
+        `Batch ${batch.batch_id} reports neither per-entity versions nor a start time; roll back with restoreVersion()`,
+        'batch'
+      );
+    }
+
+    // Check every tip before writing so a conflict leaves nothing half rolled back
+    const rollbacks = await Promise.all(
+      rewritten.map(async ({ pi, new_version, new_tip }) => {
+        const current = await this.client.getEntity(pi, requestOptions);
+        if (current.manifest_cid !== new_tip) {
+          throw new CASConflictError(pi, new_tip, current.manifest_cid);
+        }
+        const components =
+          options?.components ?? (await this.regeneratedComponents(pi, new_version, requestOptions));
+        return { pi, tip: new_tip, ver: options?.versions?.[pi] ?? new_version - 1, components };
+      })
+    );
+
+    const results: SaveResult[] = [];
+
+    for (const { pi, tip, ver, components } of rollbacks) {
+      let version;
+      try {
+        version = await this.client.restoreVersion(pi, ver, {
+          ...requestOptions,
+          components,
+          expectTip: tip,
+          note: options?.note ?? `Rollback of ${batch.batch_id} to v${ver}`,
+        });
+      } catch (error) {
+        if (results.length === 0) throw error;
+        throw new BatchRollbackError(batch.batch_id, pi, results, error);
+      }
+
+      if (version) {
+        results.push({ pi: version.pi, newVersion: version.ver, newTip: version.tip });
+      }
+    }
+
+    return results;
+  }
+
   /**
    * Get the underlying API client (for advanced usage)
    */
   getClient(): ArkeClient {
     return this.client;
   }
+
+  /**
+   * The first version written to each entity since a batch started, for
+   * backends that do not report per-entity versions
+   */
+  private async rewrittenSince(pis: string[], startedAt: number, options?: RequestOptions): Promise<RewrittenEntity[]> {
+    const rewritten: RewrittenEntity[] = [];
+
+    for (const pi of pis) {
+      const history = await this.client.getVersionHistory(pi, Infinity, options);
+      const before = history.findIndex((v) => Date.parse(v.ts) < startedAt);
+      if (before <= 0) {
+        continue; // Not rewritten by this batch
+      }
+      const written = history[before - 1];
+      rewritten.push({ pi, new_version: written.ver, new_tip: written.tip });
+    }
+
+    return rewritten;
+  }
+
+  /**
+   * Components that differ between a version and the one before it
+   */
+  private async regeneratedComponents(pi: string, ver: number, options?: RequestOptions): Promise<string[]> {
+    const [before, after] = await Promise.all([
+      this.client.getEntityVersion(pi, ver - 1, options),
+      this.client.getEntityVersion(pi, ver, options),
+    ]);
+    const names = new Set([...Object.keys(before.components), ...Object.keys(after.components)]);
+    return [...names].filter((name) => before.components[name] !== after.components[name]);
+  }
 }
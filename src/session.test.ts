@@ -0,0 +1,633 @@
+import { beforeEach, describe, expect, it } from 'vitest';
+import { ArkeEditSDK } from './sdk';
+import { InMemoryArkeBackend } from './testing';
+import {
+  CancelledError,
+  CASConflictError,
+  MergeConflictError,
+  ServiceUnavailableError,
+  ValidationError,
+} from './types';
+
+/**
+ * Hierarchy:
+ *   Collection: COLLECTION
+ *     └─ Child: CHILD
+ *         └─ Grandchild: GRANDCHILD
+ */
+function createBackend(config?: ConstructorParameters<typeof InMemoryArkeBackend>[0]): InMemoryArkeBackend {
+  const backend = new InMemoryArkeBackend(config);
+  backend.addEntity({ pi: 'COLLECTION', components: { 'description.md': 'A collection.' } });
+  backend.addEntity({ pi: 'CHILD', parent_pi: 'COLLECTION', components: { 'description.md': 'A child.' } });
+  backend.addEntity({
+    pi: 'GRANDCHILD',
+    parent_pi: 'CHILD',
+    components: {
+      'description.md': 'Letter written in 1895.',
+      'pinax.json': JSON.stringify({ date: '1895' }),
+    },
+  });
+  return backend;
+}
+
+function reprocessBodies(backend: InMemoryArkeBackend) {
+  return backend.requests.filter((r) => r.url.endsWith('/api/reprocess')).map((r) => r.body);
+}
+
+let backend: InMemoryArkeBackend;
+let sdk: ArkeEditSDK;
+
+beforeEach(() => {
+  backend = createBackend();
+  sdk = new ArkeEditSDK(backend.clientConfig);
+});
+
+describe('manual edit with cascade', () => {
+  async function editedSession() {
+    const session = sdk.createSession('GRANDCHILD', { mode: 'manual-with-review' });
+    await session.load();
+    session.setContent('description.md', 'Letter written in 1985.');
+    session.addCorrection('1895', '1985', 'description.md');
+    session.setScope({ components: ['pinax', 'description'], cascade: true, stopAtPi: 'COLLECTION' });
+    return session;
+  }
+
+  it('previews the real cascade path', async () => {
+    const session = await editedSession();
+    expect(session.getEntity().ver).toBe(1);
+
+    const preview = await session.previewPrompt();
+    expect(preview.description).toContain('Cascade path: GRANDCHILD → CHILD\nDepth: 1');
+  });
+
+  it('rejects a stopAtPi outside the ancestor chain', async () => {
+    const session = await editedSession();
+    session.setScope({ stopAtPi: 'NOTES' });
+    await expect(session.previewPrompt()).rejects.toBeInstanceOf(ValidationError);
+  });
+
+  it('leaves stopAtPi out of a request without cascade', async () => {
+    const session = await editedSession();
+    session.setScope({ cascade: false, stopAtPi: 'BOGUS' });
+    const reprocess = (await session.plan('No cascade')).operations.find((op) => op.type === 'reprocess');
+    expect(reprocess?.type === 'reprocess' && reprocess.request.options?.stop_at_pi).toBeUndefined();
+  });
+
+  it('estimates impact and drops it when the scope changes', async () => {
+    const session = await editedSession();
+    const impact = await session.estimateImpact();
+    expect(impact.entityCount).toBe(2);
+    expect(impact.entities.map((e) => e.pi)).toEqual(['GRANDCHILD', 'CHILD']);
+    expect(session.getChangeSummary().impact).toBe(impact);
+
+    session.setScope({ cascade: false });
+    expect(session.getChangeSummary().impact).toBeUndefined();
+  });
+
+  it('plans the submit without writing anything', async () => {
+    const session = await editedSession();
+    const plan = await session.plan('Corrected date');
+
+    expect(backend.requests.filter((r) => r.method !== 'GET')).toHaveLength(0);
+    expect(plan.operations.map((op) => op.type)).toEqual(['upload', 'updateEntity', 'reprocess']);
+    const [upload, update] = plan.operations;
+    expect(upload.type === 'upload' && upload.content).toBe('Letter written in 1985.');
+    expect(update.type === 'updateEntity' && update.update.components?.['description.md']).toBe('upload:description.md');
+  });
+
+  it('resolves the cascade for a plan with the given request options', async () => {
+    const session = await editedSession();
+    const controller = new AbortController();
+    controller.abort();
+    await expect(session.plan('Corrected date', { signal: controller.signal })).rejects.toBeInstanceOf(
+      CancelledError
+    );
+
+    backend.failNext({ method: 'GET', path: '/entities/CHILD', status: 503 });
+    await expect(session.plan('Corrected date', { retry: false })).rejects.toBeInstanceOf(ServiceUnavailableError);
+  });
+
+  it('saves, reprocesses the cascade and stops below stopAtPi', async () => {
+    const session = await editedSession();
+    const plan = await session.plan('Corrected date');
+    const result = await session.submit('Corrected date');
+    expect(result.saved?.newVersion).toBe(2);
+    expect(result.reprocess?.entity_pis).toEqual(['GRANDCHILD', 'CHILD']);
+
+    const phases: string[] = [];
+    const status = await session.waitForCompletion({
+      intervalMs: 0,
+      onProgress: (s) => phases.push(s.reprocessStatus!.status),
+    });
+    expect(status.phase).toBe('complete');
+    expect(backend.getEntity('GRANDCHILD')!.ver).toBe(3);
+    expect(backend.getEntity('CHILD')!.ver).toBe(2);
+    expect(backend.getEntity('COLLECTION')!.ver).toBe(1);
+
+    const planned = plan.operations[2];
+    expect(planned.type === 'reprocess' && planned.request).toEqual(reprocessBodies(backend)[0]);
+    expect(backend.requests.filter((r) => r.url.includes('/status/'))).toHaveLength(1);
+  });
+});
+
+describe('status', () => {
+  it('falls back to polling without streaming support', async () => {
+    const polled = new InMemoryArkeBackend({ streaming: false });
+    polled.addEntity({ pi: 'ITEM', components: { 'description.md': 'An item.' } });
+    const session = new ArkeEditSDK(polled.clientConfig).createSession('ITEM', { mode: 'ai-prompt' });
+    await session.load();
+    session.setScope({ components: ['description'], cascade: false });
+    await session.submit('Polled run');
+
+    const updates: string[] = [];
+    for await (const update of session.watchStatus({ intervalMs: 0 })) {
+      updates.push(update.status);
+    }
+    expect(updates).toEqual(['QUEUED', 'DISCOVERY', 'DESCRIPTION', 'DONE']);
+  });
+
+  it('stops waitForCompletion with CancelledError when aborted', async () => {
+    const session = sdk.createSession('COLLECTION', { mode: 'ai-prompt' });
+    await session.load();
+    session.setScope({ components: ['description'], cascade: false });
+    await session.submit('Cancelled run');
+
+    const controller = new AbortController();
+    await expect(
+      session.waitForCompletion({ intervalMs: 10, signal: controller.signal, onProgress: () => controller.abort() })
+    ).rejects.toBeInstanceOf(CancelledError);
+  });
+
+  it('ends waitForCompletion as cancelled when the batch is cancelled', async () => {
+    const session = sdk.createSession('GRANDCHILD', { mode: 'ai-prompt' });
+    await session.load();
+    session.setPrompt('general', 'Wrong prompt');
+    session.setScope({ components: ['description'], cascade: true });
+    await session.submit('Mistaken run');
+
+    const versionsBefore = backend.getVersions('GRANDCHILD').length;
+    const status = await session.waitForCompletion({
+      stream: 'poll',
+      intervalMs: 50,
+      onProgress: (s) => {
+        if (s.reprocessStatus?.status === 'QUEUED') void session.cancelReprocess();
+      },
+    });
+    expect(status.phase).toBe('cancelled');
+    expect(backend.getVersions('GRANDCHILD')).toHaveLength(versionsBefore);
+    await expect(session.cancelReprocess()).resolves.not.toThrow();
+  });
+
+  it('reports the cancellation without a watcher', async () => {
+    const session = sdk.createSession('GRANDCHILD', { mode: 'ai-prompt' });
+    await session.load();
+    session.setScope({ components: ['description'], cascade: true });
+    const phases: string[] = [];
+    const statuses: string[] = [];
+    session.on('submitPhaseChanged', ({ phase }) => phases.push(phase));
+    session.on('statusUpdated', (s) => statuses.push(s.reprocessStatus!.status));
+    await session.submit('Mistaken run');
+
+    await session.cancelReprocess();
+    expect(phases).toEqual(['reprocessing', 'cancelled']);
+    expect(statuses).toEqual(['CANCELLED']);
+  });
+});
+
+describe('partial cascade failure', () => {
+  it('reports per-entity outcomes and retries only the failures', async () => {
+    let flakyChild = true;
+    const partial = createBackend({
+      regenerate: ({ pi, current }) => {
+        if (pi === 'CHILD' && flakyChild) throw new Error('Model timeout');
+        return `${current} (regenerated)`;
+      },
+    });
+    const session = new ArkeEditSDK(partial.clientConfig).createSession('GRANDCHILD');
+    await session.load();
+    session.setScope({ components: ['description'], cascade: true });
+    await session.submit('Cascade');
+
+    const status = await session.waitForCompletion();
+    expect(status.phase).toBe('error');
+    expect(status.failedPis).toEqual(['CHILD']);
+    expect(status.succeededPis).toEqual(['GRANDCHILD', 'COLLECTION']);
+    expect(status.reprocessStatus!.entities!.find((e) => e.pi === 'CHILD')?.error).toBe('Model timeout');
+
+    flakyChild = false;
+    const retries = await session.retryFailed();
+    expect(retries.map((r) => r.entity_pis)).toEqual([['CHILD']]);
+    const retried = await session.waitForCompletion();
+    expect(retried.phase).toBe('complete');
+    expect(retried.succeededPis).toEqual(['GRANDCHILD', 'CHILD', 'COLLECTION']);
+    expect(retried.reprocessStatus!.entities!.find((e) => e.pi === 'CHILD')?.new_version).toBe(2);
+    expect((await session.getStatus()).succeededPis).toEqual(retried.succeededPis);
+    expect(partial.getEntity('GRANDCHILD')!.ver).toBe(2);
+  });
+
+  it('retries each failed entity in its own batch and follows them together', async () => {
+    const flaky = new Set(['GRANDCHILD', 'CHILD']);
+    const partial = createBackend({
+      regenerate: ({ pi, current }) => {
+        if (flaky.has(pi)) throw new Error('Model timeout');
+        return `${current} (regenerated)`;
+      },
+    });
+    const session = new ArkeEditSDK(partial.clientConfig).createSession('GRANDCHILD');
+    await session.load();
+    session.setScope({ components: ['description'], cascade: true, stopAtPi: 'COLLECTION' });
+    const result = await session.submit('Cascade');
+    expect((await session.waitForCompletion()).failedPis).toEqual(['GRANDCHILD', 'CHILD']);
+
+    flaky.delete('GRANDCHILD');
+    const retries = await session.retryFailed();
+    const [original, ...retryBodies] = reprocessBodies(partial) as { options?: { stop_at_pi?: string } }[];
+    expect(original.options?.stop_at_pi).toBe('COLLECTION');
+    expect(retryBodies).toEqual([
+      expect.objectContaining({ pi: 'GRANDCHILD', cascade: false }),
+      expect.objectContaining({ pi: 'CHILD', cascade: false }),
+    ]);
+    expect(retryBodies.every((body) => body.options?.stop_at_pi === undefined)).toBe(true);
+    expect(retries).toHaveLength(2);
+
+    const retried = await session.waitForCompletion({ intervalMs: 0 });
+    expect(retried.phase).toBe('error');
+    expect(retried.succeededPis).toEqual(['GRANDCHILD']);
+    expect(retried.failedPis).toEqual(['CHILD']);
+    expect(retried.reprocessStatus!.batch_id).toBe(
+      [result.reprocess!, ...retries].map((r) => r.batch_id).join(',')
+    );
+
+    flaky.clear();
+    expect(await session.retryFailed()).toHaveLength(1);
+    expect((await session.waitForCompletion({ intervalMs: 0 })).phase).toBe('complete');
+    expect(partial.getComponent('CHILD', 'description.md')).toBe('A child. (regenerated)');
+  });
+
+  it('cancels every batch it follows', async () => {
+    let flakyChild = true;
+    const partial = createBackend({
+      regenerate: ({ pi, current }) => {
+        if (flakyChild && pi !== 'COLLECTION') throw new Error('Model timeout');
+        return `${current} (regenerated)`;
+      },
+    });
+    const session = new ArkeEditSDK(partial.clientConfig).createSession('GRANDCHILD');
+    await session.load();
+    session.setScope({ components: ['description'], cascade: true });
+    await session.submit('Cascade');
+    await session.waitForCompletion({ intervalMs: 0 });
+
+    flakyChild = false;
+    await session.retryFailed();
+    const status = await session.cancelReprocess();
+    expect(status.status).toBe('CANCELLED');
+    expect((await session.waitForCompletion({ intervalMs: 0 })).phase).toBe('cancelled');
+    expect(partial.getEntity('CHILD')!.ver).toBe(1);
+  });
+
+  it('rejects retrying when nothing failed', async () => {
+    const session = sdk.createSession('COLLECTION', { mode: 'ai-prompt' });
+    await session.load();
+    session.setScope({ components: ['description'], cascade: false });
+    await session.submit('Run');
+    await session.waitForCompletion({ intervalMs: 0 });
+    await expect(session.retryFailed()).rejects.toBeInstanceOf(ValidationError);
+  });
+});
+
+describe('hybrid mode', () => {
+  it('combines a manual fix with a free-form prompt', async () => {
+    const hybrid = sdk.createSession('CHILD', { mode: 'hybrid' });
+    await hybrid.load();
+    hybrid.setContent('description.md', 'A child, dated 1985.');
+    hybrid.setPrompt('description', 'Use a more formal tone');
+    hybrid.setScope({ components: ['description'] });
+
+    const preview = await hybrid.previewPrompt();
+    expect(preview.description).toContain('## Manual Edits Made');
+    expect(preview.description).toContain('more formal tone');
+
+    const summary = hybrid.getChangeSummary();
+    expect(summary.willSave && summary.willReprocess).toBe(true);
+    expect(summary.customPrompts?.description).toBe(preview.description);
+
+    const result = await hybrid.submit('Fixed date, formal tone');
+    expect(result.saved).toBeDefined();
+    expect(result.reprocess).toBeDefined();
+    expect((await hybrid.waitForCompletion({ intervalMs: 0 })).phase).toBe('complete');
+  });
+
+  it('sends a plain AI prompt when nothing was edited by hand', async () => {
+    const hybrid = sdk.createSession('CHILD', { mode: 'hybrid' });
+    await hybrid.load();
+    hybrid.setPrompt('description', 'Use a more formal tone');
+    hybrid.setScope({ components: ['description'] });
+
+    const preview = await hybrid.previewPrompt();
+    expect(preview.description).not.toContain('## Manual Edits Made');
+    expect(preview.description).toContain('## Entity Context');
+    expect(preview.description).toContain('- PI: CHILD');
+    expect(preview.description).toContain('more formal tone');
+  });
+});
+
+describe('prompt parity', () => {
+  const cases = (['ai-prompt', 'manual-with-review', 'manual-only', 'hybrid'] as const).flatMap((mode) =>
+    [false, true].map((cascade) => ({ mode, cascade }))
+  );
+
+  it.each(cases)('previews exactly the prompts sent ($mode, cascade: $cascade)', async ({ mode, cascade }) => {
+    backend.addEntity({ pi: 'PARITY_ROOT', components: { 'description.md': 'Root.' } });
+    backend.addEntity({
+      pi: 'PARITY',
+      parent_pi: 'PARITY_ROOT',
+      components: { 'description.md': 'Dated 1895.', 'pinax.json': '{"date":"1895"}' },
+    });
+    const session = sdk.createSession('PARITY', { mode });
+    await session.load();
+    if (mode !== 'ai-prompt') {
+      session.setContent('description.md', `Dated 1985 (${mode}).`);
+      session.addCorrection('1895', '1985', 'description.md');
+    }
+    if (mode !== 'manual-only') {
+      session.setPrompt('general', 'Be precise');
+      session.setPrompt('pinax', 'Normalize dates');
+    }
+    session.setScope({ components: ['reorganization', 'pinax', 'description', 'cheimarros'], cascade });
+
+    const previewed = await session.previewPrompt();
+    const planned = (await session.plan('Parity')).operations.find((op) => op.type === 'reprocess');
+    expect(session.getChangeSummary().customPrompts).toEqual(previewed);
+    expect(planned?.type === 'reprocess' && planned.request.options?.custom_prompts).toEqual(previewed);
+
+    await session.submit('Parity');
+    const sent = reprocessBodies(backend).pop() as { options?: { custom_prompts?: unknown } };
+    expect(sent.options?.custom_prompts).toEqual(previewed);
+  });
+});
+
+describe('reorganization scope', () => {
+  it('forwards the reorganization phase and prompt', async () => {
+    const session = sdk.createSession('COLLECTION', { mode: 'ai-prompt' });
+    await session.load();
+    session.setPrompt('reorganization', 'Group the pages of each letter');
+    session.setScope({ components: ['reorganization'] });
+
+    const preview = await session.previewPrompt();
+    expect(preview.reorganization).toContain('Group the pages of each letter');
+    expect(session.getChangeSummary().willRegenerate).toEqual(['reorganization']);
+
+    await session.submit('Reorganized');
+    const sent = reprocessBodies(backend).pop() as {
+      phases: string[];
+      options?: { custom_prompts?: Record<string, string> };
+    };
+    expect(sent.phases).toEqual(['reorganization']);
+    expect(sent.options?.custom_prompts?.reorganization).toBe(preview.reorganization);
+
+    const phases: string[] = [];
+    await session.waitForCompletion({ intervalMs: 0, onProgress: (s) => phases.push(s.reprocessStatus!.status) });
+    expect(phases).toContain('REORGANIZATION');
+  });
+});
+
+describe('components', () => {
+  it('adds and removes components', async () => {
+    backend.addEntity({ pi: 'ITEM', components: { 'description.md': 'An item.', 'notes.txt': 'Scratch notes' } });
+    const session = sdk.createSession('ITEM', { mode: 'manual-only' });
+    await session.load();
+    session.addComponent('transcript.txt', 'Dear Sir,');
+    session.removeComponent('notes.txt');
+
+    expect(session.getDiff().map((d) => `${d.change}:${d.componentName}`)).toEqual([
+      'added:transcript.txt',
+      'removed:notes.txt',
+    ]);
+    const summary = session.getChangeSummary();
+    expect(summary.addedComponents).toEqual(['transcript.txt']);
+    expect(summary.removedComponents).toEqual(['notes.txt']);
+    expect(summary.willSave).toBe(true);
+
+    await session.submit('Restructure');
+    const saved = backend.getEntity('ITEM')!;
+    expect(Object.keys(saved.components)).toContain('transcript.txt');
+    expect(Object.keys(saved.components)).not.toContain('notes.txt');
+  });
+
+  it('reads and writes binary components', async () => {
+    const scan = new Uint8Array([0x89, 0x50, 0x4e, 0x47, 0x0d, 0x0a, 0x1a, 0x0a, 0xff, 0x00]);
+    backend.addEntity({ pi: 'PAGE', components: { 'description.md': 'A page.', 'page.png': scan } });
+    const page = sdk.createSession('PAGE', { mode: 'manual-only' });
+    await page.load();
+    expect(await page.loadBinaryComponent('page.png')).toEqual(scan);
+
+    const rescan = new Uint8Array([0x89, 0x50, 0x4e, 0x47, 0x01, 0x02, 0xfe]);
+    const pdf = new Uint8Array([0x25, 0x50, 0x44, 0x46, 0x2d, 0x31, 0x2e, 0x37]);
+    page.setBinaryContent('page.png', new Blob([rescan]));
+    page.addComponent('page.pdf', new Response(pdf).body!);
+
+    const plan = await page.plan('Rescanned page');
+    expect(plan.operations.map((op) => (op.type === 'upload' ? `${op.contentType}:${op.size}` : op.type))).toEqual([
+      'image/png:7',
+      'application/pdf:8',
+      'updateEntity',
+    ]);
+    expect(page.getDiff().every((d) => d.binary && d.diffs.length === 0)).toBe(true);
+
+    await page.submit('Rescanned page');
+    const saved = backend.getEntity('PAGE')!;
+    expect(backend.getContentBytes(saved.components['page.png'])).toEqual({ bytes: rescan, type: 'image/png' });
+    const stream = await sdk.getClient().getContentStream(saved.components['page.pdf']);
+    expect(new Uint8Array(await new Response(stream).arrayBuffer())).toEqual(pdf);
+  });
+});
+
+describe('conflicts', () => {
+  it('raises CASConflictError from a stale session', async () => {
+    const stale = sdk.createSession('CHILD', { mode: 'manual-only' });
+    const fresh = sdk.createSession('CHILD', { mode: 'manual-only' });
+    await Promise.all([stale.load(), fresh.load()]);
+    fresh.setContent('description.md', 'Edited first.');
+    await fresh.submit('First edit');
+
+    stale.setContent('description.md', 'Edited second.');
+    await expect(stale.submit('Second edit')).rejects.toBeInstanceOf(CASConflictError);
+  });
+
+  it('rebases non-overlapping edits and reports overlapping ones', async () => {
+    backend.addEntity({ pi: 'NOTES', components: { 'description.md': 'Title\n\nBody\n\nFooter' } });
+    const mine = sdk.createSession('NOTES', { mode: 'manual-only', conflictStrategy: 'rebase' });
+    const theirs = sdk.createSession('NOTES', { mode: 'manual-only' });
+    await Promise.all([mine.load(), theirs.load()]);
+
+    theirs.setContent('description.md', 'Title\n\nBody\n\nFooter (revised)');
+    await theirs.submit('Their edit');
+    mine.setContent('description.md', 'New Title\n\nBody\n\nFooter');
+    expect((await mine.submit('My edit')).saved?.newVersion).toBe(3);
+    expect(backend.getComponent('NOTES', 'description.md')).toBe('New Title\n\nBody\n\nFooter (revised)');
+
+    await theirs.load();
+    theirs.setContent('description.md', 'Their Title\n\nBody\n\nFooter');
+    await theirs.submit('Conflicting edit');
+    mine.setContent('description.md', 'My Title\n\nBody\n\nFooter (revised)');
+    const error = await mine.submit('My conflicting edit').catch((e: unknown) => e);
+    expect(error).toBeInstanceOf(MergeConflictError);
+    expect((error as MergeConflictError).conflicts[0].hunks).toHaveLength(1);
+  });
+
+  it('merges edits to components that were never loaded', async () => {
+    backend.addEntity({ pi: 'NOTES', components: { 'notes.txt': 'First\n\nSecond\n\nThird' } });
+    const mine = sdk.createSession('NOTES', { mode: 'manual-only', conflictStrategy: 'rebase' });
+    const theirs = sdk.createSession('NOTES', { mode: 'manual-only' });
+    await Promise.all([mine.load(), theirs.load()]);
+
+    theirs.setContent('notes.txt', 'First\n\nSecond\n\nThird (revised)');
+    await theirs.submit('Their edit');
+    mine.setContent('notes.txt', 'First (mine)\n\nSecond\n\nThird');
+    await mine.submit('My edit');
+    expect(backend.getComponent('NOTES', 'notes.txt')).toBe('First (mine)\n\nSecond\n\nThird (revised)');
+  });
+
+  it('reports removing a component that changed at the new tip', async () => {
+    const mine = sdk.createSession('GRANDCHILD', { mode: 'manual-only', conflictStrategy: 'rebase' });
+    const theirs = sdk.createSession('GRANDCHILD', { mode: 'manual-only' });
+    await Promise.all([mine.load(), theirs.load()]);
+    theirs.setContent('pinax.json', '{"date":"1985"}');
+    await theirs.submit('Their edit');
+
+    mine.removeComponent('pinax.json');
+    const error = await mine.submit('My removal').catch((e: unknown) => e);
+    expect(error).toBeInstanceOf(MergeConflictError);
+    expect((error as MergeConflictError).conflicts).toMatchObject([
+      { componentName: 'pinax.json', remote: '{"date":"1985"}' },
+    ]);
+    expect(backend.getComponent('GRANDCHILD', 'pinax.json')).toBe('{"date":"1985"}');
+
+    await mine.rebase({ 'pinax.json': '' });
+    expect((await mine.submit('My removal')).saved?.newVersion).toBe(3);
+    expect(backend.getEntity('GRANDCHILD')!.components).not.toHaveProperty('pinax.json');
+  });
+
+  it('reports replacing binary content that changed at the new tip', async () => {
+    backend.addEntity({ pi: 'PAGE', components: { 'page.png': new Uint8Array([1, 1, 1]) } });
+    const mine = sdk.createSession('PAGE', { mode: 'manual-only', conflictStrategy: 'rebase' });
+    const theirs = sdk.createSession('PAGE', { mode: 'manual-only' });
+    await Promise.all([mine.load(), theirs.load()]);
+    theirs.setBinaryContent('page.png', new Uint8Array([9, 9, 9]));
+    await theirs.submit('Their scan');
+
+    mine.setBinaryContent('page.png', new Uint8Array([7, 7, 7]));
+    const error = await mine.submit('My scan').catch((e: unknown) => e);
+    expect(error).toBeInstanceOf(MergeConflictError);
+    expect((error as MergeConflictError).conflicts).toMatchObject([{ componentName: 'page.png', binary: true }]);
+    const saved = backend.getEntity('PAGE')!.components['page.png'];
+    expect(backend.getContentBytes(saved)?.bytes).toEqual(new Uint8Array([9, 9, 9]));
+  });
+});
+
+describe('undo/redo', () => {
+  beforeEach(() => {
+    backend.addEntity({ pi: 'DRAFT', components: { 'description.md': 'Draft entity.' } });
+  });
+
+  it('treats a transaction as one bounded undo step', async () => {
+    const session = sdk.createSession('DRAFT', { mode: 'manual-with-review', historyLimit: 2 });
+    await session.load();
+    const historyEvents: boolean[] = [];
+    const stop = session.on('historyChanged', (h) => historyEvents.push(h.canUndo));
+
+    session.setContent('description.md', 'First');
+    session.setContent('description.md', 'Second');
+    session.transaction('Fix typo', () => {
+      session.setContent('description.md', 'Third');
+      session.addCorrection('Second', 'Third');
+    });
+    expect(session.getHistory().undoLabel).toBe('Fix typo');
+
+    expect(session.undo()).toBe(true);
+    expect(session.getCorrections()).toHaveLength(0);
+    expect(session.getEditedContent()['description.md']).toBe('Second');
+    expect(session.redo()).toBe(true);
+    expect(session.getEditedContent()['description.md']).toBe('Third');
+
+    session.undo();
+    session.undo();
+    expect(session.undo()).toBe(false);
+    expect(session.getEditedContent()['description.md']).toBe('First');
+
+    session.setScope({ components: ['description'] });
+    expect(session.getHistory().canRedo).toBe(false);
+    stop();
+    expect(historyEvents).toHaveLength(8);
+    expect(historyEvents[historyEvents.length - 1]).toBe(true);
+  });
+
+  it('adds no undo step for a change that changes nothing', async () => {
+    const session = sdk.createSession('DRAFT', { mode: 'manual-with-review' });
+    await session.load();
+    session.setContent('description.md', 'Edited');
+    const events: string[] = [];
+    session.on('historyChanged', () => events.push('history'));
+    session.on('scopeChanged', () => events.push('scope'));
+    session.on('contentChanged', () => events.push('content'));
+
+    session.setScope({ ...session.getScope() });
+    session.setContent('description.md', 'Edited');
+    session.transaction('Nothing', () => undefined);
+
+    expect(events).toEqual([]);
+    expect(session.getHistory().undoLabel).toBe('Edit description.md');
+  });
+
+  it('reverts a throwing transaction', async () => {
+    const session = sdk.createSession('DRAFT', { mode: 'manual-with-review' });
+    await session.load();
+    expect(() =>
+      session.transaction('Broken', () => {
+        session.setScope({ cascade: true });
+        throw new Error('abort');
+      })
+    ).toThrow('abort');
+    expect(session.getScope().cascade).toBe(false);
+  });
+});
+
+describe('events', () => {
+  it('emits edit, phase and status events in order', async () => {
+    backend.addEntity({ pi: 'DRAFT', components: { 'description.md': 'Draft entity.' } });
+    const session = sdk.createSession('DRAFT', { mode: 'manual-with-review' });
+    const events: string[] = [];
+    session.on('loaded', ({ entity }) => events.push(`loaded:v${entity.ver}`));
+    session.on('contentChanged', ({ components }) => events.push(`content:${components}`));
+    session.on('promptChanged', ({ targets }) => events.push(`prompt:${targets}`));
+    session.on('correctionsChanged', ({ corrections }) => events.push(`corrections:${corrections.length}`));
+    session.on('scopeChanged', ({ scope }) => events.push(`scope:${scope.components}`));
+    session.on('submitPhaseChanged', ({ phase }) => events.push(`phase:${phase}`));
+    session.on('statusUpdated', (s) => events.push(`status:${s.reprocessStatus?.status}`));
+
+    await session.load();
+    session.setContent('description.md', 'Observed edit.');
+    session.addCorrection('edit', 'edit.');
+    session.setPrompt('general', 'Tidy up');
+    session.setScope({ components: ['description'] });
+    session.undo();
+    session.setScope({ components: ['description'] });
+    await session.submit('Observed');
+    await session.waitForCompletion({ intervalMs: 0 });
+
+    expect(events.slice(0, 8)).toEqual([
+      'loaded:v1',
+      'content:description.md',
+      'corrections:1',
+      'prompt:general',
+      'scope:description',
+      'scope:',
+      'scope:description',
+      'phase:saving',
+    ]);
+    expect(events).toContain('phase:reprocessing');
+    expect(events).toContain('status:DONE');
+    expect(events[events.length - 1]).toBe('phase:complete');
+  });
+});
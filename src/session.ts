@@ -5,9 +5,24 @@
 import { ArkeClient } from './client';
 import { DiffEngine } from './diff';
 import { PromptBuilder } from './prompts';
+import {
+  decodeBase64,
+  detectContentType,
+  encodeBase64,
+  isTextContentType,
+  resolveContentType,
+  toBlob,
+  toBytes,
+} from './content';
 import type {
   Entity,
+  EntityUpdate,
+  EntitySnapshot,
+  BinaryContent,
+  VersionHistoryEntry,
   EditMode,
+  ConflictStrategy,
+  ComponentConflict,
   EditSessionConfig,
   EditScope,
   Correction,
@@ -15,27 +30,87 @@ import type {
   RegeneratableComponent,
   PromptTarget,
   ChangeSummary,
+  ImpactEstimate,
+  EntityImpact,
+  PlannedOperation,
+  SubmitPlan,
+  SessionDraft,
+  DraftBinaryContent,
+  HistoryState,
+  EditSessionEvents,
   EditResult,
+  SaveResult,
+  RollbackOptions,
   EditStatus,
   PollOptions,
   CustomPrompts,
+  CascadeContext,
+  RequestOptions,
+  ReprocessPhase,
+  ReprocessProgress,
+  ReprocessRequest,
+  ReprocessResult,
+  ReprocessStatus,
+  StatusStreamOptions,
+  EditPhase,
+  EntityReprocessStatus,
 } from './types';
-import { ValidationError } from './types';
+import { CASConflictError, CancelledError, MergeConflictError, ReprocessError, ValidationError } from './types';
+import { linkSignals, throwIfAborted } from './abort';
+import { TypedEventEmitter, type EventListener } from './events';
 
 const DEFAULT_SCOPE: EditScope = {
   components: [],
   cascade: false,
 };
 
-const DEFAULT_POLL_OPTIONS: Required<Omit<PollOptions, 'onProgress'>> = {
+/** Components loaded eagerly because they are commonly edited */
+const PRIORITY_COMPONENTS = ['description.md', 'pinax.json', 'cheimarros.json'];
+
+/** Rebase-and-retry attempts before a CAS conflict is surfaced */
+const MAX_REBASE_ATTEMPTS = 3;
+
+const DEFAULT_POLL_OPTIONS: Required<Omit<PollOptions, 'onProgress' | 'signal' | 'stream'>> = {
   intervalMs: 2000,
   timeoutMs: 300000, // 5 minutes
 };
 
+const DEFAULT_HISTORY_LIMIT = 100;
+
+/** Edits captured for undo/redo */
+interface EditState {
+  prompts: Record<string, string>;
+  editedContent: Record<string, string>;
+  binaryContent: Record<string, BinaryContent>;
+  removedComponents: Set<string>;
+  corrections: Correction[];
+  scope: EditScope;
+}
+
+interface HistoryEntry {
+  label: string;
+  state: EditState; // Edits before the change
+}
+
+/** Format version written by toDraft() */
+const DRAFT_VERSION = 1;
+
+const EDIT_MODES: EditMode[] = ['ai-prompt', 'manual-with-review', 'manual-only', 'hybrid'];
+const CONFLICT_STRATEGIES: ConflictStrategy[] = ['fail', 'rebase'];
+
+/** Edit phase reached when the orchestrator reports a final status */
+const TERMINAL_PHASES: Partial<Record<ReprocessPhase, EditPhase>> = {
+  DONE: 'complete',
+  ERROR: 'error',
+  CANCELLED: 'cancelled',
+};
+
 export class EditSession {
   readonly pi: string;
   readonly mode: EditMode;
   readonly aiReviewEnabled: boolean;
+  readonly conflictStrategy: ConflictStrategy;
+  readonly historyLimit: number;
 
   private client: ArkeClient;
   private entity: Entity | null = null;
@@ -46,21 +121,38 @@ export class EditSession {
 
   // Manual mode state
   private editedContent: Record<string, string> = {};
+  private binaryContent: Record<string, BinaryContent> = {};
+  private removedComponents = new Set<string>();
   private corrections: Correction[] = [];
 
   // Scope
   private scope: EditScope = { ...DEFAULT_SCOPE };
+  private cascadeChain: { key: string; entities: Entity[] } | null = null;
+  private impact: { key: string; estimate: ImpactEstimate } | null = null;
+
+  // Undo history
+  private undoStack: HistoryEntry[] = [];
+  private redoStack: HistoryEntry[] = [];
+  private inTransaction = false;
+  private events = new TypedEventEmitter<EditSessionEvents>();
 
   // Execution state
   private submitting = false;
+  private phase: EditPhase = 'idle';
   private result: EditResult | null = null;
-  private statusUrl: string | null = null;
+  private batches: ReprocessResult[] = []; // The submitted batch, or one per retried entity
+  private reprocessRequest: ReprocessRequest | null = null;
+  // Aborted by cancelReprocess() to stop status watchers
+  private statusWatch = new AbortController();
+  private cancelledStatus: ReprocessStatus | null = null;
 
   constructor(client: ArkeClient, pi: string, config?: EditSessionConfig) {
     this.client = client;
     this.pi = pi;
     this.mode = config?.mode ?? 'ai-prompt';
     this.aiReviewEnabled = config?.aiReviewEnabled ?? true;
+    this.conflictStrategy = config?.conflictStrategy ?? 'fail';
+    this.historyLimit = config?.historyLimit ?? DEFAULT_HISTORY_LIMIT;
   }
 
   // ===========================================================================
@@ -70,30 +162,21 @@ export class EditSession {
   /**
    * Load the entity and its key components
    */
-  async load(): Promise<void> {
-    this.entity = await this.client.getEntity(this.pi);
+  async load(options?: RequestOptions): Promise<void> {
+    const entity = await this.client.getEntity(this.pi, options);
 
     // Load key components that are commonly edited
-    const priorityComponents = ['description.md', 'pinax.json', 'cheimarros.json'];
+    const components = await this.fetchComponents(entity, PRIORITY_COMPONENTS, options);
 
-    await Promise.all(
-      priorityComponents.map(async (name) => {
-        const cid = this.entity!.components[name];
-        if (cid) {
-          try {
-            this.loadedComponents[name] = await this.client.getContent(cid);
-          } catch {
-            // Component may not exist, that's ok
-          }
-        }
-      })
-    );
+    this.entity = entity;
+    this.loadedComponents = components;
+    this.events.emit('loaded', { entity });
   }
 
   /**
    * Load a specific component on demand
    */
-  async loadComponent(name: string): Promise<string | undefined> {
+  async loadComponent(name: string, options?: RequestOptions): Promise<string | undefined> {
     if (this.loadedComponents[name]) {
       return this.loadedComponents[name];
     }
@@ -107,11 +190,27 @@ export class EditSession {
       return undefined;
     }
 
-    const content = await this.client.getContent(cid);
+    const contentType = detectContentType(name);
+    if (contentType && !isTextContentType(contentType)) {
+      throw new ValidationError(`Component ${name} is binary; use loadBinaryComponent()`, 'name');
+    }
+
+    const content = await this.client.getContent(cid, options);
     this.loadedComponents[name] = content;
     return content;
   }
 
+  /**
+   * Fetch a component's bytes (images, PDFs, page scans)
+   *
+   * Binary content is not kept in the session; returns undefined if the
+   * entity has no such component.
+   */
+  async loadBinaryComponent(name: string, options?: RequestOptions): Promise<Uint8Array | undefined> {
+    const cid = this.getEntity().components[name];
+    return cid ? this.client.getContentBytes(cid, options) : undefined;
+  }
+
   /**
    * Get the loaded entity
    */
@@ -129,6 +228,76 @@ export class EditSession {
     return { ...this.loadedComponents };
   }
 
+  // ===========================================================================
+  // Version History
+  // ===========================================================================
+
+  /**
+   * List versions of the entity, newest first
+   *
+   * @param maxVersions - Stop after this many versions (default: all)
+   */
+  async getVersionHistory(
+    maxVersions?: number,
+    options?: RequestOptions
+  ): Promise<VersionHistoryEntry[]> {
+    return this.client.getVersionHistory(this.pi, maxVersions, options);
+  }
+
+  /**
+   * Load the entity and its key components as they were at a given version
+   */
+  async loadVersion(ver: number, options?: RequestOptions): Promise<EntitySnapshot> {
+    const entity = await this.client.getEntityVersion(this.pi, ver, options);
+    const components = await this.fetchComponents(entity, PRIORITY_COMPONENTS, options);
+    return { entity, components };
+  }
+
+  /**
+   * Load a single component as it was at a given version
+   */
+  async loadComponentAtVersion(
+    name: string,
+    ver: number,
+    options?: RequestOptions
+  ): Promise<string | undefined> {
+    const entity = await this.client.getEntityVersion(this.pi, ver, options);
+    const cid = entity.components[name];
+    return cid ? this.client.getContent(cid, options) : undefined;
+  }
+
+  /**
+   * Restore components from an earlier version by writing a new version,
+   * then reload the session from the new tip
+   *
+   * Fails with CASConflictError if the entity moved past the loaded version.
+   *
+   * @param ver - Version to restore from
+   * @param options - Components to restore (default: all) and version note
+   * @returns The new version, or null if the entity already matches
+   */
+  async rollback(ver: number, options?: RollbackOptions): Promise<SaveResult | null> {
+    if (!this.entity) {
+      throw new ValidationError('Session not loaded. Call load() first.');
+    }
+
+    const version = await this.client.restoreVersion(this.pi, ver, {
+      ...options,
+      expectTip: options?.expectTip ?? this.entity.manifest_cid,
+    });
+    if (!version) {
+      return null;
+    }
+
+    await this.load({ signal: options?.signal });
+
+    return {
+      pi: version.pi,
+      newVersion: version.ver,
+      newTip: version.tip,
+    };
+  }
+
   // ===========================================================================
   // AI Prompt Mode
   // ===========================================================================
@@ -140,7 +309,9 @@ export class EditSession {
     if (this.mode === 'manual-only') {
       throw new ValidationError('Cannot set prompts in manual-only mode');
     }
-    this.prompts[target] = prompt;
+    this.transaction(`Set ${target} prompt`, () => {
+      this.prompts[target] = prompt;
+    });
   }
 
   /**
@@ -154,7 +325,9 @@ export class EditSession {
    * Clear a prompt
    */
   clearPrompt(target: PromptTarget): void {
-    delete this.prompts[target];
+    this.transaction(`Clear ${target} prompt`, () => {
+      delete this.prompts[target];
+    });
   }
 
   // ===========================================================================
@@ -168,7 +341,68 @@ export class EditSession {
     if (this.mode === 'ai-prompt') {
       throw new ValidationError('Cannot set content in ai-prompt mode');
     }
-    this.editedContent[componentName] = content;
+    this.transaction(`Edit ${componentName}`, () => {
+      this.removedComponents.delete(componentName);
+      delete this.binaryContent[componentName];
+      this.editedContent[componentName] = content;
+    });
+  }
+
+  /**
+   * Replace a component with binary content (image, PDF, ...)
+   *
+   * Binary components are uploaded as-is and never diffed.
+   */
+  setBinaryContent(componentName: string, content: BinaryContent): void {
+    if (this.mode === 'ai-prompt') {
+      throw new ValidationError('Cannot set content in ai-prompt mode');
+    }
+    this.transaction(`Replace ${componentName}`, () => {
+      this.removedComponents.delete(componentName);
+      delete this.editedContent[componentName];
+      this.binaryContent[componentName] = content;
+    });
+  }
+
+  /**
+   * Add a component that does not exist on the entity yet
+   */
+  addComponent(componentName: string, content: string | BinaryContent): void {
+    if (this.entity && componentName in this.entity.components && !this.removedComponents.has(componentName)) {
+      throw new ValidationError(`Component ${componentName} already exists; use setContent()`, 'componentName');
+    }
+    this.transaction(`Add ${componentName}`, () => {
+      if (typeof content === 'string') {
+        this.setContent(componentName, content);
+      } else {
+        this.setBinaryContent(componentName, content);
+      }
+    });
+  }
+
+  /**
+   * Remove a component from the entity on submit
+   */
+  removeComponent(componentName: string): void {
+    if (this.mode === 'ai-prompt') {
+      throw new ValidationError('Cannot remove components in ai-prompt mode');
+    }
+    const entity = this.getEntity();
+
+    this.transaction(`Remove ${componentName}`, () => {
+      delete this.editedContent[componentName];
+      delete this.binaryContent[componentName];
+      if (componentName in entity.components) {
+        this.removedComponents.add(componentName);
+      }
+    });
+  }
+
+  /**
+   * Get components marked for removal
+   */
+  getRemovedComponents(): string[] {
+    return [...this.removedComponents];
   }
 
   /**
@@ -179,17 +413,23 @@ export class EditSession {
   }
 
   /**
-   * Clear edited content for a component
+   * Clear edited content for a component, or undo its addition or removal
    */
   clearContent(componentName: string): void {
-    delete this.editedContent[componentName];
+    this.transaction(`Clear ${componentName}`, () => {
+      delete this.editedContent[componentName];
+      delete this.binaryContent[componentName];
+      this.removedComponents.delete(componentName);
+    });
   }
 
   /**
    * Add a correction (for OCR fixes, etc.)
    */
   addCorrection(original: string, corrected: string, sourceFile?: string): void {
-    this.corrections.push({ original, corrected, sourceFile });
+    this.transaction('Add correction', () => {
+      this.corrections.push({ original, corrected, sourceFile });
+    });
   }
 
   /**
@@ -203,7 +443,9 @@ export class EditSession {
    * Clear corrections
    */
   clearCorrections(): void {
-    this.corrections = [];
+    this.transaction('Clear corrections', () => {
+      this.corrections = [];
+    });
   }
 
   // ===========================================================================
@@ -214,7 +456,9 @@ export class EditSession {
    * Set the edit scope
    */
   setScope(scope: Partial<EditScope>): void {
-    this.scope = { ...this.scope, ...scope };
+    this.transaction('Change scope', () => {
+      this.scope = { ...this.scope, ...scope };
+    });
   }
 
   /**
@@ -236,77 +480,89 @@ export class EditSession {
 
     for (const [name, edited] of Object.entries(this.editedContent)) {
       const original = this.loadedComponents[name] || '';
-      if (DiffEngine.hasSignificantChanges(original, edited)) {
+      if (this.isNewComponent(name)) {
+        diffs.push(DiffEngine.createComponentDiff(name, '', edited, 'added'));
+      } else if (DiffEngine.hasSignificantChanges(original, edited)) {
         diffs.push(DiffEngine.createComponentDiff(name, original, edited));
       }
     }
 
+    for (const name of Object.keys(this.binaryContent)) {
+      diffs.push(DiffEngine.createBinaryComponentDiff(name, this.isNewComponent(name) ? 'added' : 'modified'));
+    }
+
+    for (const name of this.removedComponents) {
+      diffs.push(DiffEngine.createComponentDiff(name, this.loadedComponents[name] || '', '', 'removed'));
+    }
+
     return diffs;
   }
 
   /**
-   * Preview what prompts will be sent to AI
+   * Preview the prompts submit() will send, exactly as they appear in the
+   * request's custom_prompts
+   *
+   * With cascade enabled, resolves the real ancestor chain first so the
+   * cascade context shows the entities that will be updated.
+   *
+   * @throws ValidationError if scope.stopAtPi is not an ancestor of this entity
    */
-  previewPrompt(): Record<RegeneratableComponent, string> {
-    const result: Record<string, string> = {};
-
-    if (!this.entity) return result as Record<RegeneratableComponent, string>;
-
-    const entityContext = {
-      pi: this.entity.pi,
-      ver: this.entity.ver,
-      parentPi: this.entity.parent_pi,
-      childrenCount: this.entity.children_pi.length,
-      currentContent: this.loadedComponents,
-    };
-
-    for (const component of this.scope.components) {
-      let prompt: string;
+  async previewPrompt(options?: RequestOptions): Promise<Record<RegeneratableComponent, string>> {
+    if (!this.entity) return {} as Record<RegeneratableComponent, string>;
 
-      if (this.mode === 'ai-prompt') {
-        // AI prompt mode: use user's prompt
-        const componentPrompt = this.prompts[component];
-        const generalPrompt = this.prompts['general'];
-        const combined = PromptBuilder.buildCombinedPrompt(generalPrompt, componentPrompt, component);
-        prompt = PromptBuilder.buildAIPrompt(
-          combined,
-          component,
-          entityContext,
-          this.loadedComponents[`${component}.json`] || this.loadedComponents[`${component}.md`]
-        );
-      } else {
-        // Manual mode: build from diffs and corrections
-        const diffs = this.getDiff();
-        const userInstructions = this.prompts['general'] || this.prompts[component];
-        prompt = PromptBuilder.buildEditReviewPrompt(diffs, this.corrections, component, userInstructions);
-      }
+    return this.assemblePrompts(await this.resolvePromptChain(options));
+  }
 
-      // Add cascade context if applicable
-      if (this.scope.cascade) {
-        prompt = PromptBuilder.buildCascadePrompt(prompt, {
-          path: [this.entity.pi, this.entity.parent_pi || 'root'].filter(Boolean) as string[],
-          depth: 0,
-          stopAtPi: this.scope.stopAtPi,
-        });
-      }
+  /**
+   * Estimate which entities submitting the current scope will rewrite
+   *
+   * Lists the edited entity and, with cascade enabled, each ancestor below
+   * stopAtPi, with its current version and the components it will
+   * regenerate. Empty when no components are selected.
+   *
+   * @throws ValidationError if scope.stopAtPi is not an ancestor of this entity
+   */
+  async estimateImpact(options?: RequestOptions): Promise<ImpactEstimate> {
+    if (!this.entity) {
+      throw new ValidationError('Session not loaded. Call load() first.');
+    }
 
-      result[component] = prompt;
+    const key = this.impactKey();
+    const components = [...this.scope.components];
+    let entities: Entity[] = [];
+    if (components.length > 0) {
+      entities = this.scope.cascade ? await this.resolveCascadeChain(options) : [this.entity];
     }
 
-    return result as Record<RegeneratableComponent, string>;
+    const estimate: ImpactEstimate = {
+      entities: entities.map(
+        (entity, depth): EntityImpact => ({ pi: entity.pi, ver: entity.ver, depth, components: [...components] })
+      ),
+      entityCount: entities.length,
+    };
+    this.impact = { key, estimate };
+    return estimate;
   }
 
   /**
    * Get a summary of pending changes
+   *
+   * Includes the impact once estimateImpact() has run for the current scope.
+   * With cascade enabled, the custom prompts are included once the cascade
+   * path has been resolved (by previewPrompt(), estimateImpact() or plan()).
    */
   getChangeSummary(): ChangeSummary {
     const diffs = this.getDiff();
     const hasManualEdits = diffs.some((d) => d.hasChanges);
+    const impact = this.impact?.key === this.impactKey() ? this.impact.estimate : undefined;
+    const edited = [...Object.keys(this.editedContent), ...Object.keys(this.binaryContent)];
 
     return {
       mode: this.mode,
       hasManualEdits,
-      editedComponents: Object.keys(this.editedContent),
+      editedComponents: edited,
+      addedComponents: edited.filter((name) => this.isNewComponent(name)),
+      removedComponents: [...this.removedComponents],
       corrections: [...this.corrections],
       prompts: { ...this.prompts },
       scope: { ...this.scope },
@@ -314,9 +570,65 @@ export class EditSession {
       willCascade: this.scope.cascade,
       willSave: hasManualEdits,
       willReprocess: this.scope.components.length > 0,
+      customPrompts: this.cachedCustomPrompts(),
+      impact,
     };
   }
 
+  /**
+   * Plan what submit() will send, without writing anything
+   *
+   * Lists the uploads, the entity update and the reprocess request in the
+   * order submit() performs them, with full payloads. CIDs are only known
+   * once content is uploaded, so the update refers to each upload as
+   * `upload:<component>`. If submit() has to rebase first, it sends the
+   * rebased content instead.
+   *
+   * @param options - Signal and retry policy for resolving the cascade chain
+   */
+  async plan(note: string, options?: RequestOptions): Promise<SubmitPlan> {
+    if (!this.entity) {
+      throw new ValidationError('Session not loaded. Call load() first.');
+    }
+
+    const operations: PlannedOperation[] = [];
+    const components: Record<string, string> = {};
+
+    for (const name of Object.keys(this.binaryContent)) {
+      const content = await this.bufferBinaryContent(name);
+      operations.push({
+        type: 'upload',
+        component: name,
+        contentType: resolveContentType(content, name),
+        size: content instanceof Blob ? content.size : content.byteLength,
+      });
+      components[name] = `upload:${name}`;
+    }
+
+    for (const name of this.changedTextComponents()) {
+      const content = this.editedContent[name];
+      operations.push({
+        type: 'upload',
+        component: name,
+        contentType: resolveContentType(content, name),
+        size: new TextEncoder().encode(content).byteLength,
+        content,
+      });
+      components[name] = `upload:${name}`;
+    }
+
+    if (Object.keys(components).length > 0 || this.removedComponents.size > 0) {
+      operations.push({ type: 'updateEntity', pi: this.pi, update: this.buildEntityUpdate(note, components) });
+    }
+
+    if (this.scope.components.length > 0) {
+      const chain = await this.resolvePromptChain(options);
+      operations.push({ type: 'reprocess', request: this.buildReprocessRequest(note, chain) });
+    }
+
+    return { pi: this.pi, note, operations };
+  }
+
   // ===========================================================================
   // Execution
   // ===========================================================================
@@ -324,182 +636,1139 @@ export class EditSession {
   /**
    * Submit changes (saves first if manual edits, then reprocesses)
    */
-  async submit(note: string): Promise<EditResult> {
+  async submit(note: string, options?: RequestOptions): Promise<EditResult> {
     if (this.submitting) {
       throw new ValidationError('Submit already in progress');
     }
     if (!this.entity) {
       throw new ValidationError('Session not loaded. Call load() first.');
     }
+    throwIfAborted(options?.signal);
 
     this.submitting = true;
     this.result = {};
 
     try {
+      // Resolved before saving, so an invalid stopAtPi fails without writing
+      const chain = await this.resolvePromptChain(options);
+
       // Phase 1: Save manual edits if any
       const diffs = this.getDiff();
       const hasManualEdits = diffs.some((d) => d.hasChanges);
 
       if (hasManualEdits) {
-        // Upload edited components and collect CIDs
-        const componentUpdates: Record<string, string> = {};
-
-        for (const [name, content] of Object.entries(this.editedContent)) {
-          const original = this.loadedComponents[name] || '';
-          if (DiffEngine.hasSignificantChanges(original, content)) {
-            const cid = await this.client.uploadContent(content, name);
-            componentUpdates[name] = cid;
-          }
+        this.setPhase('saving');
+        const saved = await this.saveEdits(note, options);
+        if (saved) {
+          this.result.saved = saved;
         }
-
-        // Update entity
-        const version = await this.client.updateEntity(this.pi, {
-          expect_tip: this.entity.manifest_cid,
-          components: componentUpdates,
-          note,
-        });
-
-        this.result.saved = {
-          pi: version.pi,
-          newVersion: version.ver,
-          newTip: version.tip,
-        };
-
-        // Update our entity reference
-        this.entity.manifest_cid = version.tip;
-        this.entity.ver = version.ver;
       }
 
       // Phase 2: Trigger reprocessing if components selected
       if (this.scope.components.length > 0) {
-        const customPrompts = this.buildCustomPrompts();
-
-        const reprocessResult = await this.client.reprocess({
-          pi: this.pi,
-          phases: this.scope.components,
-          cascade: this.scope.cascade,
-          options: {
-            stop_at_pi: this.scope.stopAtPi,
-            custom_prompts: customPrompts,
-            custom_note: note,
-          },
-        });
-
-        this.result.reprocess = reprocessResult;
-        this.statusUrl = reprocessResult.status_url;
+        this.result.reprocess = await this.startReprocess(this.buildReprocessRequest(note, chain), options);
+      } else {
+        this.setPhase('complete');
       }
 
       return this.result;
+    } catch (error) {
+      this.setPhase(error instanceof CancelledError ? 'idle' : 'error');
+      throw error;
     } finally {
       this.submitting = false;
     }
   }
 
+  /**
+   * Reprocess only the entities that failed in the last batch
+   *
+   * Re-sends the original phases, prompts and note as one single-entity,
+   * non-cascading batch per failed PI. The retries join the batches the
+   * session follows, so waitForCompletion(), watchStatus(), getStatus() and
+   * cancelReprocess() cover the original batch and its retries together,
+   * with each retry's outcome replacing the failure it retried.
+   *
+   * @returns One batch per failed entity
+   * @throws ValidationError if there is no batch or nothing failed
+   */
+  async retryFailed(options?: RequestOptions): Promise<ReprocessResult[]> {
+    const request = this.reprocessRequest;
+    if (!request || this.batches.length === 0) {
+      throw new ValidationError('No reprocessing to retry');
+    }
+
+    const statuses = await Promise.all(
+      this.batches.map((batch) => this.client.getReprocessStatus(batch.status_url, false, options))
+    );
+    const failed = toEditStatus(combineStatuses(statuses)).failedPis ?? [];
+    if (failed.length === 0) {
+      throw new ValidationError('No failed entities to retry');
+    }
+
+    // A retry reprocesses one entity without cascading, so there is nothing to stop at
+    const retry: ReprocessRequest = {
+      ...request,
+      cascade: false,
+      options: { ...request.options, stop_at_pi: undefined },
+    };
+    const retries: ReprocessResult[] = [];
+    try {
+      for (const pi of failed) {
+        retries.push(await this.client.reprocess({ ...retry, pi }, options));
+      }
+    } finally {
+      // Follow the retries already started even if a later one failed
+      if (retries.length > 0) {
+        this.followBatches(request, [...this.batches, ...retries]);
+      }
+    }
+    return retries;
+  }
+
   /**
    * Wait for reprocessing to complete
+   *
+   * Receives updates over the client's status stream, polling every
+   * `intervalMs` when streaming is unavailable.
    */
   async waitForCompletion(options?: PollOptions): Promise<EditStatus> {
     const opts = { ...DEFAULT_POLL_OPTIONS, ...options };
 
-    if (!this.statusUrl) {
+    if (this.batches.length === 0) {
       return {
         phase: 'complete',
         saveComplete: true,
       };
     }
 
-    const startTime = Date.now();
-    let isFirstPoll = true;
-
-    while (true) {
-      // Pass isFirstPoll flag - the client will use longer retry delays on first poll
-      // since the orchestrator often needs time to initialize after reprocess is triggered
-      const status = await this.client.getReprocessStatus(this.statusUrl, isFirstPoll);
-      isFirstPoll = false;
+    // The timeout ends the stream like a cancellation, but is reported as an error status
+    const watch = linkSignals(opts.signal);
+    const timer = setTimeout(() => watch.abort(), opts.timeoutMs);
 
-      const editStatus: EditStatus = {
-        phase: status.status === 'DONE' ? 'complete' : status.status === 'ERROR' ? 'error' : 'reprocessing',
-        saveComplete: true,
-        reprocessStatus: status,
-        error: status.error,
-      };
-
-      if (opts.onProgress) {
-        opts.onProgress(editStatus);
-      }
-
-      if (status.status === 'DONE' || status.status === 'ERROR') {
-        return editStatus;
+    let editStatus: EditStatus | undefined;
+    try {
+      for await (const status of this.watchStatus({
+        mode: opts.stream,
+        intervalMs: opts.intervalMs,
+        signal: watch.signal,
+      })) {
+        editStatus = toEditStatus(status);
+        opts.onProgress?.(editStatus);
+
+        if (editStatus.phase !== 'reprocessing') {
+          return editStatus;
+        }
       }
-
-      if (Date.now() - startTime > opts.timeoutMs) {
+    } catch (error) {
+      if (error instanceof CancelledError && watch.signal.aborted && !opts.signal?.aborted) {
         return {
           phase: 'error',
           saveComplete: true,
-          reprocessStatus: status,
+          reprocessStatus: editStatus?.reprocessStatus,
           error: 'Timeout waiting for reprocessing to complete',
         };
       }
+      throw error;
+    } finally {
+      clearTimeout(timer);
+      watch.dispose();
+    }
+
+    return editStatus ?? { phase: 'complete', saveComplete: true };
+  }
+
+  /**
+   * Watch reprocessing status updates until the batch finishes
+   *
+   * Yields nothing if no reprocessing was triggered. When following several
+   * batches (after retryFailed()), each update is their combined status. See
+   * ArkeClient.watchReprocessStatus() for how updates are delivered.
+   */
+  async *watchStatus(options?: StatusStreamOptions): AsyncGenerator<ReprocessStatus> {
+    if (this.batches.length === 0) {
+      return;
+    }
+
+    const cancelled = this.statusWatch.signal;
+    const watch = linkSignals(options?.signal, cancelled);
+    // Batches not watched yet count as queued
+    const latest = this.batches.map(queuedStatus);
+    try {
+      for (const [index, batch] of this.batches.entries()) {
+        const statuses = this.client.watchReprocessStatus(batch.status_url, { ...options, signal: watch.signal });
+        for await (const status of statuses) {
+          latest[index] = status;
+          const combined = combineStatuses(latest);
+          this.updateStatus(combined);
+          yield combined;
+        }
+      }
+    } catch (error) {
+      // Stopped by cancelReprocess(), which already reported the cancelled status
+      if (error instanceof CancelledError && cancelled.aborted && this.cancelledStatus) {
+        yield this.cancelledStatus;
+        return;
+      }
+      throw error;
+    } finally {
+      watch.dispose();
+    }
+  }
 
-      await new Promise((resolve) => setTimeout(resolve, opts.intervalMs));
+  /**
+   * Cancel the reprocessing started by submit()
+   *
+   * Any waitForCompletion() or watchStatus() in progress stops and finishes
+   * with the CANCELLED status. Entities already regenerated by the batch keep
+   * their new versions.
+   *
+   * @throws ValidationError if submit() did not trigger reprocessing
+   * @throws ReprocessError if the batch has already finished
+   */
+  async cancelReprocess(options?: RequestOptions): Promise<ReprocessStatus> {
+    if (this.batches.length === 0) {
+      throw new ValidationError('No reprocessing to cancel');
     }
+
+    // With several batches, ones that already finished are reported as they ended
+    const statuses = await Promise.all(
+      this.batches.map((batch) =>
+        this.client.cancelReprocess(batch.batch_id, options).catch((error: unknown) => {
+          if (this.batches.length > 1 && error instanceof ReprocessError) {
+            return this.client.getReprocessStatus(batch.status_url, false, options);
+          }
+          throw error;
+        })
+      )
+    );
+    const status = combineStatuses(statuses);
+    this.cancelledStatus = status;
+    this.updateStatus(status);
+    this.statusWatch.abort();
+    return status;
   }
 
   /**
    * Get current status without waiting
    */
-  async getStatus(): Promise<EditStatus> {
-    if (!this.statusUrl) {
+  async getStatus(options?: RequestOptions): Promise<EditStatus> {
+    if (this.batches.length === 0) {
       return {
         phase: this.result?.saved ? 'complete' : 'idle',
         saveComplete: !!this.result?.saved,
       };
     }
 
-    const status = await this.client.getReprocessStatus(this.statusUrl);
+    const statuses = await Promise.all(
+      this.batches.map((batch) => this.client.getReprocessStatus(batch.status_url, false, options))
+    );
+    return this.updateStatus(combineStatuses(statuses));
+  }
+
+  /**
+   * Reload the latest tip and merge local edits onto it
+   *
+   * Each edited component is three-way merged (content as loaded, content at
+   * the new tip, local edit). A removed component, or one replaced with
+   * binary content, conflicts if it changed at the new tip, since neither can
+   * be merged. On success the new tip becomes the session's base. Pass
+   * `resolutions` to supply resolved content for components that previously
+   * conflicted; they are taken as-is. Listing a removed or binary component
+   * keeps the local change (clear it with clearContent() to keep the remote
+   * version instead).
+   *
+   * @throws MergeConflictError if any component has unresolved conflicts
+   */
+  async rebase(resolutions?: Record<string, string>, options?: RequestOptions): Promise<void> {
+    if (!this.entity) {
+      throw new ValidationError('Session not loaded. Call load() first.');
+    }
+
+    const remote = await this.client.getEntity(this.pi, options);
+    const removedText = [...this.removedComponents].filter((name) => {
+      const contentType = detectContentType(name);
+      return !contentType || isTextContentType(contentType);
+    });
+    const edited = Object.keys(this.editedContent);
+    const remoteComponents = await this.fetchComponents(
+      remote,
+      [...new Set([...PRIORITY_COMPONENTS, ...Object.keys(this.loadedComponents), ...edited, ...removedText])],
+      options
+    );
+    // Components edited or removed without being loaded still merge against their loaded version
+    const base = {
+      ...(await this.fetchComponents(
+        this.entity,
+        [...edited, ...removedText].filter((name) => !(name in this.loadedComponents)),
+        options
+      )),
+      ...this.loadedComponents,
+    };
+
+    const merged: Record<string, string> = {};
+    const conflicts: ComponentConflict[] = [];
+
+    for (const [name, local] of Object.entries(this.editedContent)) {
+      if (resolutions && name in resolutions) {
+        merged[name] = resolutions[name];
+        continue;
+      }
+
+      const result = DiffEngine.merge3(
+        base[name] || '',
+        local,
+        remoteComponents[name] || ''
+      );
+
+      if (result.clean) {
+        merged[name] = result.merged;
+      } else {
+        conflicts.push({
+          componentName: name,
+          hunks: result.conflicts,
+          merged: result.merged,
+          remote: remoteComponents[name] || '',
+        });
+      }
+    }
+
+    // Removing a component would discard changes saved to it since load()
+    for (const name of this.removedComponents) {
+      const remoteCid = remote.components[name];
+      if (!remoteCid || remoteCid === this.entity.components[name] || (resolutions && name in resolutions)) {
+        continue;
+      }
+      const remoteText = remoteComponents[name] || '';
+      conflicts.push({
+        componentName: name,
+        hunks: [{ baseLine: 1, base: base[name] || '', local: '', remote: remoteText }],
+        merged: ['<<<<<<< local', '=======', remoteText, '>>>>>>> remote'].join('\n'),
+        remote: remoteText,
+      });
+    }
+
+    // Binary content cannot be merged, so replacing it would discard changes saved since
+    for (const name of Object.keys(this.binaryContent)) {
+      if (remote.components[name] === this.entity.components[name] || (resolutions && name in resolutions)) {
+        continue;
+      }
+      conflicts.push({ componentName: name, hunks: [], merged: '', remote: '', binary: true });
+    }
+
+    if (conflicts.length > 0) {
+      throw new MergeConflictError(this.pi, remote.manifest_cid, conflicts);
+    }
+
+    const before = this.captureEdits();
+    this.entity = remote;
+    this.loadedComponents = remoteComponents;
+    this.editedContent = { ...this.editedContent, ...merged };
+
+    // Components already removed upstream need no removal
+    for (const name of this.removedComponents) {
+      if (!(name in remote.components)) this.removedComponents.delete(name);
+    }
+    this.events.emit('loaded', { entity: remote });
+    this.emitEditChanges(before);
+    this.clearHistory();
+  }
+
+  // ===========================================================================
+  // History
+  // ===========================================================================
+
+  /**
+   * Group the changes made by `apply` into a single undo step
+   *
+   * `apply` must be synchronous. If it throws, its changes are reverted.
+   * Transactions started inside `apply` join this one. A transaction that
+   * leaves the edits unchanged adds no undo step.
+   */
+  transaction(label: string, apply: () => void): void {
+    if (this.inTransaction) {
+      apply();
+      return;
+    }
+
+    const before = this.captureEdits();
+    this.inTransaction = true;
+    try {
+      apply();
+    } catch (error) {
+      this.restoreEdits(before);
+      throw error;
+    } finally {
+      this.inTransaction = false;
+    }
 
+    // A transaction that changed nothing leaves no undo step
+    if (!this.emitEditChanges(before)) return;
+    this.undoStack.push({ label, state: before });
+    if (this.undoStack.length > this.historyLimit) {
+      this.undoStack.shift();
+    }
+    this.redoStack = [];
+    this.emitHistory();
+  }
+
+  /**
+   * Revert the most recent change or transaction
+   *
+   * @returns false if there was nothing to undo
+   */
+  undo(): boolean {
+    const entry = this.undoStack.pop();
+    if (!entry) return false;
+
+    const before = this.captureEdits();
+    this.redoStack.push({ label: entry.label, state: before });
+    this.restoreEdits(entry.state);
+    this.emitEditChanges(before);
+    this.emitHistory();
+    return true;
+  }
+
+  /**
+   * Reapply the most recently undone change
+   *
+   * @returns false if there was nothing to redo
+   */
+  redo(): boolean {
+    const entry = this.redoStack.pop();
+    if (!entry) return false;
+
+    const before = this.captureEdits();
+    this.undoStack.push({ label: entry.label, state: before });
+    this.restoreEdits(entry.state);
+    this.emitEditChanges(before);
+    this.emitHistory();
+    return true;
+  }
+
+  /**
+   * Get whether undo and redo are available, and what they would change
+   */
+  getHistory(): HistoryState {
     return {
-      phase: status.status === 'DONE' ? 'complete' : status.status === 'ERROR' ? 'error' : 'reprocessing',
-      saveComplete: true,
-      reprocessStatus: status,
-      error: status.error,
+      canUndo: this.undoStack.length > 0,
+      canRedo: this.redoStack.length > 0,
+      undoLabel: this.undoStack[this.undoStack.length - 1]?.label,
+      redoLabel: this.redoStack[this.redoStack.length - 1]?.label,
     };
   }
 
+  /**
+   * Forget all undo and redo steps
+   *
+   * Also done by rebase() and restoreDraft(), whose changes cannot be undone.
+   */
+  clearHistory(): void {
+    if (this.undoStack.length === 0 && this.redoStack.length === 0) return;
+    this.undoStack = [];
+    this.redoStack = [];
+    this.emitHistory();
+  }
+
+  // ===========================================================================
+  // Events
+  // ===========================================================================
+
+  /**
+   * Subscribe to a session event
+   *
+   * @returns A function that removes the listener
+   */
+  on<K extends keyof EditSessionEvents>(event: K, listener: EventListener<EditSessionEvents[K]>): () => void {
+    return this.events.on(event, listener);
+  }
+
+  /**
+   * Remove a listener added with on()
+   */
+  off<K extends keyof EditSessionEvents>(event: K, listener: EventListener<EditSessionEvents[K]>): void {
+    this.events.off(event, listener);
+  }
+
+  // ===========================================================================
+  // Drafts
+  // ===========================================================================
+
+  /**
+   * Serialize the session's draft state (edits, prompts, scope and pending
+   * reprocess) to JSON-compatible data
+   *
+   * Binary content is embedded as base64.
+   */
+  async toDraft(): Promise<SessionDraft> {
+    const binaryContent: Record<string, DraftBinaryContent> = {};
+    for (const name of Object.keys(this.binaryContent)) {
+      const content = await this.bufferBinaryContent(name);
+      binaryContent[name] = {
+        contentType: resolveContentType(content, name),
+        base64: encodeBase64(await toBytes(content)),
+      };
+    }
+
+    return {
+      version: DRAFT_VERSION,
+      pi: this.pi,
+      createdAt: new Date().toISOString(),
+      mode: this.mode,
+      aiReviewEnabled: this.aiReviewEnabled,
+      conflictStrategy: this.conflictStrategy,
+      historyLimit: this.historyLimit,
+      base: this.entity ? { manifest_cid: this.entity.manifest_cid, ver: this.entity.ver } : null,
+      prompts: { ...this.prompts },
+      editedContent: { ...this.editedContent },
+      binaryContent,
+      removedComponents: [...this.removedComponents],
+      corrections: this.corrections.map((c) => ({ ...c })),
+      scope: { ...this.scope, components: [...this.scope.components] },
+      batches: [...this.batches],
+      result: this.result,
+      reprocessRequest: this.reprocessRequest,
+    };
+  }
+
+  /**
+   * Restore draft state taken with toDraft() (see ArkeEditSDK.restoreSession())
+   *
+   * The session must use the mode, AI review setting, conflict strategy and
+   * history limit the draft was saved with.
+   *
+   * Loads the version the draft was based on, so diffs and prompts are the
+   * same as in the original session. If the tip has moved since, submit()
+   * fails with a CASConflictError (or rebases, with the 'rebase' conflict
+   * strategy); call rebase() to merge the draft onto the new tip first.
+   *
+   * @returns The entity's current tip, or undefined if the draft was never loaded
+   * @throws ValidationError if the draft is malformed, for another entity or
+   *   session configuration, or in an unsupported format version
+   */
+  async restoreDraft(draft: SessionDraft, options?: RequestOptions): Promise<string | undefined> {
+    validateDraft(draft);
+    if (draft.pi !== this.pi) {
+      throw new ValidationError(`Draft is for ${draft.pi}, not ${this.pi}`, 'pi');
+    }
+    const config: [keyof SessionDraft, unknown][] = [
+      ['mode', this.mode],
+      ['aiReviewEnabled', this.aiReviewEnabled],
+      ['conflictStrategy', this.conflictStrategy],
+      ['historyLimit', this.historyLimit],
+    ];
+    for (const [field, value] of config) {
+      if (draft[field] !== undefined && draft[field] !== value) {
+        throw new ValidationError(
+          `Draft was saved with ${field} ${String(draft[field])}, but this session uses ${String(value)}`,
+          field
+        );
+      }
+    }
+
+    let currentTip: string | undefined;
+    if (draft.base) {
+      const tip = await this.client.getEntity(this.pi, options);
+      const entity =
+        tip.manifest_cid === draft.base.manifest_cid
+          ? tip
+          : await this.client.getEntityVersion(this.pi, draft.base.ver, options);
+      const names = [...new Set([...PRIORITY_COMPONENTS, ...Object.keys(draft.editedContent)])];
+
+      this.loadedComponents = await this.fetchComponents(entity, names, options);
+      this.entity = entity;
+      currentTip = tip.manifest_cid;
+      this.events.emit('loaded', { entity });
+    }
+
+    const before = this.captureEdits();
+    this.prompts = { ...draft.prompts };
+    this.editedContent = { ...draft.editedContent };
+    this.binaryContent = {};
+    for (const [name, binary] of Object.entries(draft.binaryContent)) {
+      this.binaryContent[name] = await toBlob(decodeBase64(binary.base64), binary.contentType);
+    }
+    this.removedComponents = new Set(draft.removedComponents);
+    this.corrections = draft.corrections.map((c) => ({ ...c }));
+    this.scope = { ...draft.scope, components: [...draft.scope.components] };
+    this.batches = [...draft.batches];
+    this.result = draft.result;
+    this.reprocessRequest = draft.reprocessRequest;
+    this.emitEditChanges(before);
+    this.clearHistory();
+    if (this.batches.length > 0) {
+      this.setPhase('reprocessing');
+    }
+
+    return currentTip;
+  }
+
   // ===========================================================================
   // Private Helpers
   // ===========================================================================
 
-  private buildCustomPrompts(): CustomPrompts {
-    const custom: CustomPrompts = {};
+  /**
+   * Trigger reprocessing and make it the batch this session follows
+   */
+  private async startReprocess(request: ReprocessRequest, options?: RequestOptions): Promise<ReprocessResult> {
+    const result = await this.client.reprocess(request, options);
+    this.followBatches(request, [result]);
+    return result;
+  }
 
-    // In AI prompt mode, prompts go directly to reprocess API
-    if (this.mode === 'ai-prompt') {
-      if (this.prompts['general']) custom.general = this.prompts['general'];
-      if (this.prompts['pinax']) custom.pinax = this.prompts['pinax'];
-      if (this.prompts['description']) custom.description = this.prompts['description'];
-      if (this.prompts['cheimarros']) custom.cheimarros = this.prompts['cheimarros'];
-    } else {
-      // Manual mode: build prompts from diffs, corrections, and user instructions
-      const diffs = this.getDiff();
-      const diffContext = DiffEngine.formatComponentDiffsForPrompt(diffs);
-      const correctionContext = PromptBuilder.buildCorrectionPrompt(this.corrections);
+  /**
+   * Make batches the ones the session follows
+   *
+   * @param request - The submitted request, which retries are derived from
+   */
+  private followBatches(request: ReprocessRequest, batches: ReprocessResult[]): void {
+    this.reprocessRequest = request;
+    this.batches = batches;
+    this.statusWatch = new AbortController();
+    this.cancelledStatus = null;
+    this.setPhase('reprocessing');
+  }
+
+  /**
+   * Copy the edits that undo() and redo() restore
+   */
+  private captureEdits(): EditState {
+    return {
+      prompts: { ...this.prompts },
+      editedContent: { ...this.editedContent },
+      binaryContent: { ...this.binaryContent },
+      removedComponents: new Set(this.removedComponents),
+      corrections: [...this.corrections],
+      scope: { ...this.scope },
+    };
+  }
+
+  /**
+   * Replace the session's edits with a copy of a captured state (the
+   * session mutates its records in place)
+   */
+  private restoreEdits(state: EditState): void {
+    this.prompts = { ...state.prompts };
+    this.editedContent = { ...state.editedContent };
+    this.binaryContent = { ...state.binaryContent };
+    this.removedComponents = new Set(state.removedComponents);
+    this.corrections = [...state.corrections];
+    this.scope = { ...state.scope };
+  }
+
+  private emitHistory(): void {
+    this.events.emit('historyChanged', this.getHistory());
+  }
+
+  /**
+   * Emit change events for whatever differs from an earlier captured state,
+   * returning whether anything did
+   */
+  private emitEditChanges(before: EditState): boolean {
+    let changed = false;
+    const components = new Set([
+      ...changedKeys(before.editedContent, this.editedContent),
+      ...changedKeys(before.binaryContent, this.binaryContent),
+      ...[...before.removedComponents].filter((name) => !this.removedComponents.has(name)),
+      ...[...this.removedComponents].filter((name) => !before.removedComponents.has(name)),
+    ]);
+    if (components.size > 0) {
+      this.events.emit('contentChanged', { components: [...components] });
+      changed = true;
+    }
+
+    const targets = changedKeys(before.prompts, this.prompts) as PromptTarget[];
+    if (targets.length > 0) {
+      this.events.emit('promptChanged', { targets });
+      changed = true;
+    }
+
+    if (
+      before.corrections.length !== this.corrections.length ||
+      before.corrections.some((correction, i) => correction !== this.corrections[i])
+    ) {
+      this.events.emit('correctionsChanged', { corrections: [...this.corrections] });
+      changed = true;
+    }
+
+    if (JSON.stringify(before.scope) !== JSON.stringify(this.scope)) {
+      this.events.emit('scopeChanged', { scope: { ...this.scope } });
+      changed = true;
+    }
+
+    return changed;
+  }
+
+  /**
+   * Record the phase of the submit workflow, emitting a change
+   */
+  private setPhase(phase: EditPhase): void {
+    if (phase === this.phase) return;
+    this.phase = phase;
+    this.events.emit('submitPhaseChanged', { phase });
+  }
+
+  /**
+   * Emit a received reprocess status and the phase it implies
+   */
+  private updateStatus(status: ReprocessStatus): EditStatus {
+    const editStatus = toEditStatus(status);
+    this.events.emit('statusUpdated', editStatus);
+    this.setPhase(editStatus.phase);
+    return editStatus;
+  }
+
+  /**
+   * Binary content of a component, with a stream (readable only once)
+   * buffered in its place so it can still be uploaded
+   */
+  private async bufferBinaryContent(componentName: string): Promise<Uint8Array | Blob> {
+    const content = this.binaryContent[componentName];
+    if (!(content instanceof ReadableStream)) {
+      return content;
+    }
+    const buffered = await toBlob(content, resolveContentType(content, componentName));
+    this.binaryContent[componentName] = buffered;
+    return buffered;
+  }
+
+  /**
+   * Whether a component is being added (not present on the loaded entity)
+   */
+  private isNewComponent(componentName: string): boolean {
+    return !!this.entity && !(componentName in this.entity.components);
+  }
+
+  /**
+   * Resolve the entities a cascade from this entity will update: the entity
+   * itself, then each ancestor below stopAtPi
+   *
+   * Cached per entity version and stopAtPi.
+   *
+   * @throws ValidationError if stopAtPi is not an ancestor of this entity
+   */
+  private async resolveCascadeChain(options?: RequestOptions): Promise<Entity[]> {
+    const entity = this.entity!;
+    const stopAtPi = this.scope.stopAtPi;
+    const key = this.cascadeKey();
+    if (this.cascadeChain?.key === key) {
+      return this.cascadeChain.entities;
+    }
 
-      // Combine all context: diffs + corrections + user instructions
-      const basePrompt = [diffContext, correctionContext, this.prompts['general']]
-        .filter(Boolean)
-        .join('\n\n');
+    const ancestors = await this.client.getAncestors(entity.pi, {
+      stopAtPi,
+      signal: options?.signal,
+      retry: options?.retry,
+    });
+    const top = ancestors[ancestors.length - 1] ?? entity;
+    if (stopAtPi && top.parent_pi !== stopAtPi) {
+      throw new ValidationError(`stopAtPi ${stopAtPi} is not an ancestor of ${entity.pi}`, 'stopAtPi');
+    }
+
+    const entities = [entity, ...ancestors];
+    this.cascadeChain = { key, entities };
+    return entities;
+  }
+
+  /**
+   * Cache key for the cascade chain of the current entity version and stopAtPi
+   */
+  private cascadeKey(): string {
+    return `${this.entity?.manifest_cid}:${this.scope.stopAtPi ?? ''}`;
+  }
+
+  /**
+   * The cascade chain the prompts describe: null without cascade or when
+   * nothing will be regenerated
+   */
+  private async resolvePromptChain(options?: RequestOptions): Promise<Entity[] | null> {
+    if (!this.scope.cascade || this.scope.components.length === 0) {
+      return null;
+    }
+    return this.resolveCascadeChain(options);
+  }
+
+  /**
+   * Cache key for the impact of the current scope
+   */
+  private impactKey(): string {
+    const { components, cascade, stopAtPi } = this.scope;
+    return `${this.entity?.manifest_cid}:${components.join(',')}:${cascade}:${stopAtPi ?? ''}`;
+  }
 
-      if (basePrompt) {
-        custom.general = basePrompt;
+  /**
+   * Upload changed components and write a new version, rebasing on CAS
+   * conflicts when the conflict strategy allows it
+   *
+   * @returns The save result, or undefined if a rebase left nothing to save
+   */
+  private async saveEdits(note: string, options?: RequestOptions): Promise<SaveResult | undefined> {
+    // rebase() keeps binary content unchanged (or fails), so it is uploaded once
+    const binaryUpdates: Record<string, string> = {};
+    for (const [name, content] of Object.entries(this.binaryContent)) {
+      binaryUpdates[name] = await this.client.uploadContent(content, name, options);
+    }
+
+    for (let attempt = 0; ; attempt++) {
+      // Upload edited components and collect CIDs
+      const componentUpdates: Record<string, string> = { ...binaryUpdates };
+
+      for (const name of this.changedTextComponents()) {
+        componentUpdates[name] = await this.client.uploadContent(this.editedContent[name], name, options);
+      }
+
+      if (Object.keys(componentUpdates).length === 0 && this.removedComponents.size === 0) {
+        return undefined;
       }
 
-      // Component-specific prompts
-      if (this.prompts['pinax']) custom.pinax = this.prompts['pinax'];
-      if (this.prompts['description']) custom.description = this.prompts['description'];
-      if (this.prompts['cheimarros']) custom.cheimarros = this.prompts['cheimarros'];
+      try {
+        const version = await this.client.updateEntity(this.pi, this.buildEntityUpdate(note, componentUpdates), options);
+
+        // Update our entity reference
+        this.entity!.manifest_cid = version.tip;
+        this.entity!.ver = version.ver;
+
+        return {
+          pi: version.pi,
+          newVersion: version.ver,
+          newTip: version.tip,
+        };
+      } catch (error) {
+        if (
+          !(error instanceof CASConflictError) ||
+          this.conflictStrategy !== 'rebase' ||
+          attempt >= MAX_REBASE_ATTEMPTS
+        ) {
+          throw error;
+        }
+        await this.rebase(undefined, options);
+      }
+    }
+  }
+
+  /**
+   * Fetch the named components of an entity, skipping any that are missing
+   */
+  private async fetchComponents(
+    entity: Entity,
+    names: string[],
+    options?: RequestOptions
+  ): Promise<Record<string, string>> {
+    const components: Record<string, string> = {};
+
+    await Promise.all(
+      names.map(async (name) => {
+        const cid = entity.components[name];
+        if (cid) {
+          try {
+            components[name] = await this.client.getContent(cid, options);
+          } catch (error) {
+            if (error instanceof CancelledError) throw error;
+            // Component may not exist, that's ok
+          }
+        }
+      })
+    );
+
+    return components;
+  }
+
+  /**
+   * Edited text components that differ from the loaded content
+   */
+  private changedTextComponents(): string[] {
+    return Object.keys(this.editedContent).filter(
+      (name) =>
+        this.isNewComponent(name) ||
+        DiffEngine.hasSignificantChanges(this.loadedComponents[name] || '', this.editedContent[name])
+    );
+  }
+
+  /**
+   * Entity update writing the given component CIDs and pending removals
+   */
+  private buildEntityUpdate(note: string, components: Record<string, string>): EntityUpdate {
+    const componentsRemove = [...this.removedComponents];
+    return {
+      expect_tip: this.entity!.manifest_cid,
+      components,
+      components_remove: componentsRemove.length > 0 ? componentsRemove : undefined,
+      note,
+    };
+  }
+
+  /**
+   * Reprocess request for the current scope and prompts
+   *
+   * stopAtPi only applies to a cascade, so it is left out without one.
+   */
+  private buildReprocessRequest(note: string, chain: Entity[] | null): ReprocessRequest {
+    return {
+      pi: this.pi,
+      phases: [...this.scope.components],
+      cascade: this.scope.cascade,
+      options: {
+        stop_at_pi: this.scope.cascade ? this.scope.stopAtPi : undefined,
+        custom_prompts: this.assemblePrompts(chain),
+        custom_note: note,
+      },
+    };
+  }
+
+  /**
+   * Assemble the prompt for each component in scope
+   *
+   * The single source of both previewPrompt() and the custom_prompts sent by
+   * submit(), so reviewers approve exactly the text that is sent.
+   */
+  private assemblePrompts(chain: Entity[] | null): Record<RegeneratableComponent, string> {
+    const entity = this.entity!;
+    const result: Record<string, string> = {};
+
+    let cascadeContext: CascadeContext | undefined;
+    if (chain) {
+      const path = chain.map((e) => e.pi);
+      cascadeContext = { path, depth: path.length - 1, stopAtPi: this.scope.stopAtPi };
     }
 
-    return custom;
+    const entityContext = {
+      pi: entity.pi,
+      ver: entity.ver,
+      parentPi: entity.parent_pi,
+      childrenCount: entity.children_pi.length,
+      currentContent: this.loadedComponents,
+    };
+
+    for (const component of this.scope.components) {
+      let prompt: string;
+
+      if (this.mode === 'ai-prompt') {
+        // AI prompt mode: use user's prompt
+        const componentPrompt = this.prompts[component];
+        const generalPrompt = this.prompts['general'];
+        const combined = PromptBuilder.buildCombinedPrompt(generalPrompt, componentPrompt, component);
+        prompt = PromptBuilder.buildAIPrompt(
+          combined,
+          component,
+          entityContext,
+          this.loadedComponents[`${component}.json`] || this.loadedComponents[`${component}.md`]
+        );
+      } else if (this.mode === 'hybrid') {
+        // Hybrid mode: edit context plus both the general and component prompts,
+        // or an AI prompt with entity context when nothing was edited by hand
+        const componentPrompt = this.prompts[component];
+        const generalPrompt = this.prompts['general'];
+        const diffs = this.getDiff();
+        if (diffs.length > 0 || this.corrections.length > 0) {
+          const instructions =
+            generalPrompt || componentPrompt
+              ? PromptBuilder.buildCombinedPrompt(generalPrompt, componentPrompt, component)
+              : undefined;
+          prompt = PromptBuilder.buildEditReviewPrompt(diffs, this.corrections, component, instructions);
+        } else {
+          prompt = PromptBuilder.buildAIPrompt(
+            PromptBuilder.buildCombinedPrompt(generalPrompt, componentPrompt, component),
+            component,
+            entityContext,
+            this.loadedComponents[`${component}.json`] || this.loadedComponents[`${component}.md`]
+          );
+        }
+      } else {
+        // Manual mode: build from diffs and corrections
+        const diffs = this.getDiff();
+        const userInstructions = this.prompts['general'] || this.prompts[component];
+        prompt = PromptBuilder.buildEditReviewPrompt(diffs, this.corrections, component, userInstructions);
+      }
+
+      // Add cascade context if applicable
+      if (cascadeContext) {
+        prompt = PromptBuilder.buildCascadePrompt(prompt, cascadeContext);
+      }
+
+      result[component] = prompt;
+    }
+
+    return result as Record<RegeneratableComponent, string>;
+  }
+
+  /**
+   * Custom prompts for getChangeSummary(), if available without fetching
+   */
+  private cachedCustomPrompts(): CustomPrompts | undefined {
+    if (!this.entity || this.scope.components.length === 0) {
+      return undefined;
+    }
+    if (!this.scope.cascade) {
+      return this.assemblePrompts(null);
+    }
+    if (this.cascadeChain?.key === this.cascadeKey()) {
+      return this.assemblePrompts(this.cascadeChain.entities);
+    }
+    return undefined;
+  }
+}
+
+/**
+ * Map an orchestrator status onto the session's edit status
+ */
+function toEditStatus(status: ReprocessStatus): EditStatus {
+  return {
+    phase: TERMINAL_PHASES[status.status] ?? 'reprocessing',
+    saveComplete: true,
+    reprocessStatus: status,
+    error: status.error,
+    ...entityOutcomes(status),
+  };
+}
+
+/**
+ * Check that a value is a draft this version of the SDK can restore
+ *
+ * @throws ValidationError naming the first field that is missing or malformed
+ */
+export function validateDraft(draft: unknown): SessionDraft {
+  if (!isRecord(draft)) {
+    throw new ValidationError('Draft must be an object', 'draft');
+  }
+  if (draft.version !== DRAFT_VERSION) {
+    throw new ValidationError(`Unsupported draft version: ${String(draft.version)}`, 'version');
+  }
+
+  const { base, scope } = draft;
+  const fields: [keyof SessionDraft, boolean][] = [
+    ['pi', typeof draft.pi === 'string'],
+    ['mode', EDIT_MODES.includes(draft.mode as EditMode)],
+    ['aiReviewEnabled', typeof draft.aiReviewEnabled === 'boolean'],
+    ['conflictStrategy', CONFLICT_STRATEGIES.includes(draft.conflictStrategy as ConflictStrategy)],
+    [
+      'historyLimit',
+      draft.historyLimit === undefined || (Number.isInteger(draft.historyLimit) && (draft.historyLimit as number) >= 0),
+    ],
+    ['base', base === null || (isRecord(base) && typeof base.manifest_cid === 'string' && typeof base.ver === 'number')],
+    ['prompts', isRecordOf(draft.prompts, isString)],
+    ['editedContent', isRecordOf(draft.editedContent, isString)],
+    [
+      'binaryContent',
+      isRecordOf(draft.binaryContent, (b) => isRecord(b) && isString(b.contentType) && isString(b.base64)),
+    ],
+    ['removedComponents', isArrayOf(draft.removedComponents, isString)],
+    ['corrections', isArrayOf(draft.corrections, (c) => isRecord(c) && isString(c.original) && isString(c.corrected))],
+    ['scope', isRecord(scope) && isArrayOf(scope.components, isString) && typeof scope.cascade === 'boolean'],
+    [
+      'batches',
+      isArrayOf(
+        draft.batches,
+        (b) => isRecord(b) && isString(b.batch_id) && isString(b.status_url) && isArrayOf(b.entity_pis, isString)
+      ),
+    ],
+    ['result', draft.result === null || isRecord(draft.result)],
+    ['reprocessRequest', draft.reprocessRequest === null || isRecord(draft.reprocessRequest)],
+  ];
+
+  const invalid = fields.find(([, valid]) => !valid);
+  if (invalid) {
+    throw new ValidationError(`Invalid draft: ${invalid[0]} is missing or malformed`, invalid[0]);
+  }
+  return draft as unknown as SessionDraft;
+}
+
+function isRecord(value: unknown): value is Record<string, unknown> {
+  return typeof value === 'object' && value !== null && !Array.isArray(value);
+}
+
+function isString(value: unknown): value is string {
+  return typeof value === 'string';
+}
+
+function isRecordOf(value: unknown, isItem: (item: unknown) => boolean): boolean {
+  return isRecord(value) && Object.values(value).every(isItem);
+}
+
+function isArrayOf(value: unknown, isItem: (item: unknown) => boolean): boolean {
+  return Array.isArray(value) && value.every(isItem);
+}
+
+/**
+ * Status of a batch before any update was received
+ */
+function queuedStatus(batch: ReprocessResult): ReprocessStatus {
+  return {
+    batch_id: batch.batch_id,
+    status: 'QUEUED',
+    progress: {
+      directories_total: batch.entity_pis.length,
+      directories_pinax_complete: 0,
+      directories_cheimarros_complete: 0,
+      directories_description_complete: 0,
+    },
+    entities: batch.entity_pis.map((pi) => ({ pi, status: 'QUEUED' })),
+  };
+}
+
+/**
+ * Combine the statuses of batches followed together into one: unfinished
+ * while any batch is, then ERROR if any entity (or, without per-entity
+ * statuses, any batch) failed, then CANCELLED if any batch was
+ *
+ * Batches are in submission order, so a retry's outcome for an entity
+ * supersedes the earlier batch's.
+ */
+function combineStatuses(statuses: ReprocessStatus[]): ReprocessStatus {
+  if (statuses.length === 1) {
+    return statuses[0];
+  }
+
+  let entities: EntityReprocessStatus[] | undefined;
+  if (statuses.every((s) => s.entities)) {
+    const byPi = new Map<string, EntityReprocessStatus>();
+    for (const entity of statuses.flatMap((s) => s.entities!)) {
+      byPi.set(entity.pi, entity);
+    }
+    entities = [...byPi.values()];
+  }
+
+  const pending = statuses.find((s) => !TERMINAL_PHASES[s.status]);
+  const failed = entities
+    ? entities.some((e) => e.status === 'ERROR')
+    : statuses.some((s) => s.status === 'ERROR');
+  const cancelled = statuses.some((s) => s.status === 'CANCELLED');
+  const sum = (key: keyof ReprocessProgress) => statuses.reduce((total, s) => total + s.progress[key], 0);
+  const errors = (entities ?? statuses).map((s) => s.error).filter(Boolean);
+
+  return {
+    batch_id: statuses.map((s) => s.batch_id).join(','),
+    status: pending?.status ?? (failed ? 'ERROR' : cancelled ? 'CANCELLED' : 'DONE'),
+    progress: {
+      directories_total: sum('directories_total'),
+      directories_pinax_complete: sum('directories_pinax_complete'),
+      directories_cheimarros_complete: sum('directories_cheimarros_complete'),
+      directories_description_complete: sum('directories_description_complete'),
+    },
+    entities,
+    error: errors.length > 0 ? errors.join('; ') : undefined,
+  };
+}
+
+/**
+ * Keys whose values differ between two records
+ */
+function changedKeys(before: Record<string, unknown>, after: Record<string, unknown>): string[] {
+  return [...new Set([...Object.keys(before), ...Object.keys(after)])].filter((key) => before[key] !== after[key]);
+}
+
+/**
+ * Split the PIs of a batch by outcome, if the status reports entities
+ */
+function entityOutcomes(status: ReprocessStatus): Pick<EditStatus, 'succeededPis' | 'failedPis' | 'pendingPis'> {
+  if (!status.entities) {
+    return {};
+  }
+
+  const outcomes = { succeededPis: [] as string[], failedPis: [] as string[], pendingPis: [] as string[] };
+  for (const entity of status.entities) {
+    if (entity.status === 'DONE') outcomes.succeededPis.push(entity.pi);
+    else if (entity.status === 'ERROR') outcomes.failedPis.push(entity.pi);
+    else outcomes.pendingPis.push(entity.pi);
   }
+  return outcomes;
 }
@@ -0,0 +1,55 @@
+import { afterEach, describe, expect, it, vi } from 'vitest';
+import { openWebSocket } from './stream';
+import { CancelledError } from './types';
+
+/** A WebSocket whose handshake never completes */
+class StalledWebSocket {
+  static instances: StalledWebSocket[] = [];
+  onopen: (() => void) | null = null;
+  onerror: (() => void) | null = null;
+  onclose: (() => void) | null = null;
+  closed = false;
+
+  constructor(
+    readonly url: string,
+    readonly protocols?: string[]
+  ) {
+    StalledWebSocket.instances.push(this);
+  }
+
+  close() {
+    this.closed = true;
+  }
+}
+
+afterEach(() => {
+  StalledWebSocket.instances = [];
+  vi.unstubAllGlobals();
+});
+
+describe('openWebSocket', () => {
+  it('resolves null when the handshake times out', async () => {
+    vi.stubGlobal('WebSocket', StalledWebSocket);
+    await expect(openWebSocket('wss://status.test/batch', { timeoutMs: 5 })).resolves.toBeNull();
+    expect(StalledWebSocket.instances[0].closed).toBe(true);
+  });
+
+  it('resolves the socket once connected', async () => {
+    vi.stubGlobal('WebSocket', StalledWebSocket);
+    const opened = openWebSocket('wss://status.test/batch', { protocols: ['bearer.abc'] });
+    const socket = StalledWebSocket.instances[0];
+    socket.onopen!();
+
+    await expect(opened).resolves.toBe(socket);
+    expect(socket.protocols).toEqual(['bearer.abc']);
+  });
+
+  it('rejects with CancelledError when aborted during the handshake', async () => {
+    vi.stubGlobal('WebSocket', StalledWebSocket);
+    const controller = new AbortController();
+    const opened = openWebSocket('wss://status.test/batch', { signal: controller.signal });
+    controller.abort();
+
+    await expect(opened).rejects.toBeInstanceOf(CancelledError);
+  });
+});
@@ -0,0 +1,162 @@
+/**
+ * Streaming helpers for the push-based reprocess status channel
+ */
+
+import { isAbortError, throwIfAborted } from './abort';
+import { CancelledError } from './types';
+
+export interface ServerSentEvent {
+  event: string;
+  data: string;
+}
+
+/**
+ * Parse a text/event-stream body into events until the stream ends
+ */
+export async function* readEventStream(
+  body: ReadableStream<Uint8Array>,
+  signal?: AbortSignal
+): AsyncGenerator<ServerSentEvent> {
+  const reader = body.getReader();
+  const decoder = new TextDecoder();
+  const onAbort = () => {
+    reader.cancel().catch(() => undefined);
+  };
+  signal?.addEventListener('abort', onAbort, { once: true });
+
+  let buffer = '';
+  let event = 'message';
+  let data: string[] = [];
+
+  try {
+    while (true) {
+      const { value, done } = await reader.read();
+      throwIfAborted(signal);
+      if (done) return;
+
+      buffer += decoder.decode(value, { stream: true });
+      const lines = buffer.split(/\r?\n/);
+      buffer = lines.pop() ?? '';
+
+      for (const line of lines) {
+        if (line === '') {
+          // Blank line dispatches the pending event
+          if (data.length > 0) {
+            yield { event, data: data.join('\n') };
+          }
+          event = 'message';
+          data = [];
+          continue;
+        }
+        if (line.startsWith(':')) continue; // Comment / keep-alive
+
+        const colon = line.indexOf(':');
+        const field = colon === -1 ? line : line.slice(0, colon);
+        const value = colon === -1 ? '' : line.slice(colon + 1).replace(/^ /, '');
+        if (field === 'event') event = value;
+        if (field === 'data') data.push(value);
+      }
+    }
+  } catch (error) {
+    if (isAbortError(error)) {
+      throw new CancelledError(signal?.reason);
+    }
+    throw error;
+  } finally {
+    signal?.removeEventListener('abort', onAbort);
+    reader.cancel().catch(() => undefined);
+  }
+}
+
+export interface OpenWebSocketOptions {
+  protocols?: string[];
+  timeoutMs?: number; // Handshake timeout (default: 10000)
+  signal?: AbortSignal;
+}
+
+const DEFAULT_CONNECT_TIMEOUT_MS = 10000;
+
+/**
+ * Open a WebSocket, resolving once connected or null if it cannot connect
+ * before the handshake timeout
+ */
+export function openWebSocket(url: string, options?: OpenWebSocketOptions): Promise<WebSocket | null> {
+  const signal = options?.signal;
+
+  return new Promise((resolve, reject) => {
+    throwIfAborted(signal);
+
+    const socket = new WebSocket(url, options?.protocols);
+    const timer = setTimeout(() => {
+      cleanup();
+      socket.close();
+      resolve(null);
+    }, options?.timeoutMs ?? DEFAULT_CONNECT_TIMEOUT_MS);
+    const cleanup = () => {
+      clearTimeout(timer);
+      signal?.removeEventListener('abort', onAbort);
+      socket.onopen = socket.onerror = socket.onclose = null;
+    };
+    const onAbort = () => {
+      cleanup();
+      socket.close();
+      reject(new CancelledError(signal!.reason));
+    };
+
+    socket.onopen = () => {
+      cleanup();
+      resolve(socket);
+    };
+    socket.onerror = socket.onclose = () => {
+      cleanup();
+      socket.close();
+      resolve(null);
+    };
+    signal?.addEventListener('abort', onAbort, { once: true });
+  });
+}
+
+/**
+ * Yield text messages from an open WebSocket until it closes
+ */
+export async function* readWebSocket(socket: WebSocket, signal?: AbortSignal): AsyncGenerator<string> {
+  const state = { queue: [] as string[], closed: false, failed: false };
+  let wake: (() => void) | null = null;
+  const notify = () => {
+    wake?.();
+    wake = null;
+  };
+
+  socket.onmessage = (event) => {
+    if (typeof event.data === 'string') state.queue.push(event.data);
+    notify();
+  };
+  socket.onclose = () => {
+    state.closed = true;
+    notify();
+  };
+  socket.onerror = () => {
+    state.failed = true;
+    notify();
+  };
+  signal?.addEventListener('abort', notify, { once: true });
+
+  try {
+    while (true) {
+      throwIfAborted(signal);
+      if (state.queue.length > 0) {
+        yield state.queue.shift()!;
+        continue;
+      }
+      if (state.failed) throw new Error('WebSocket connection failed');
+      if (state.closed) return;
+      await new Promise<void>((resolve) => {
+        wake = resolve;
+      });
+    }
+  } finally {
+    signal?.removeEventListener('abort', notify);
+    socket.onmessage = socket.onclose = socket.onerror = null;
+    socket.close();
+  }
+}
@@ -0,0 +1,716 @@
+/**
+ * InMemoryArkeBackend - In-process stand-in for the Arke services
+ *
+ * Implements the subset of the IPFS wrapper, reprocess API and orchestrator
+ * that ArkeClient talks to, so sessions can be exercised without a network.
+ */
+
+import type {
+  ArkeClientConfig,
+  Entity,
+  EntityReprocessStatus,
+  RegeneratableComponent,
+  ReprocessPhase,
+  ReprocessProgress,
+  ReprocessRequest,
+  ReprocessResult,
+  ReprocessStatus,
+} from '../types';
+import { detectContentType } from '../content';
+
+export interface InMemoryArkeBackendConfig {
+  ipfsWrapperUrl?: string; // Default: https://api.arke.institute
+  reprocessApiUrl?: string; // Default: https://reprocess-api.arke.institute
+  orchestratorUrl?: string; // Default: https://orchestrator.arke.institute
+  /**
+   * Produce the regenerated content for a component when a batch completes.
+   * Defaults to appending a marker to the current content. Throwing fails
+   * that entity only; the rest of the batch still completes.
+   */
+  regenerate?: (context: RegenerateContext) => string;
+  /**
+   * Check the bearer token of each request. Return a status (e.g. 401, 403)
+   * to reject the request; return nothing to allow it. Default: allow all.
+   */
+  authorize?: (token: string | undefined, request: RecordedRequest) => number | void;
+  /**
+   * Serve batch status as Server-Sent Events when the client accepts
+   * text/event-stream. Disable to exercise the polling fallback. Default: true
+   */
+  streaming?: boolean;
+  /**
+   * Report per-entity status and versions in batch status. Disable to
+   * exercise backends that only report batch progress. Default: true
+   */
+  entityStatus?: boolean;
+}
+
+export interface RegenerateContext {
+  pi: string;
+  component: RegeneratableComponent;
+  filename: string;
+  current?: string;
+  request: ReprocessRequest;
+}
+
+export interface SeedEntity {
+  pi: string;
+  components?: Record<string, string | Uint8Array>; // component name -> content
+  parent_pi?: string;
+  children_pi?: string[];
+  note?: string;
+}
+
+export interface RecordedRequest {
+  method: string;
+  url: string;
+  body?: unknown;
+}
+
+export interface InjectedFailure {
+  method?: string;
+  path: string | RegExp;
+  status: number;
+  body?: unknown;
+  headers?: Record<string, string>;
+}
+
+export interface StoredContent {
+  bytes: Uint8Array;
+  type: string; // Content type given at upload
+}
+
+/** A file from a multipart upload, as recorded in RecordedRequest.body */
+export interface UploadedFile {
+  name: string;
+  type: string;
+  content: Uint8Array;
+}
+
+export interface BatchRecord {
+  batch_id: string;
+  request: ReprocessRequest;
+  entity_pis: string[];
+  steps: ReprocessPhase[];
+  position: number;
+  results: Record<string, EntityResult>; // Filled in when the batch completes
+  started_at: string;
+  completed_at?: string;
+  error?: string;
+}
+
+export interface EntityResult {
+  version?: number;
+  tip?: string;
+  error?: string;
+}
+
+/** Files written per component; reorganization leaves the stand-in tree as it is */
+const COMPONENT_FILES: Partial<Record<RegeneratableComponent, string>> = {
+  pinax: 'pinax.json',
+  description: 'description.md',
+  cheimarros: 'cheimarros.json',
+};
+
+/** Phase order used by the orchestrator */
+const PHASE_ORDER: Array<[RegeneratableComponent, ReprocessPhase]> = [
+  ['reorganization', 'REORGANIZATION'],
+  ['pinax', 'PINAX_EXTRACTION'],
+  ['cheimarros', 'CHEIMARROS_EXTRACTION'],
+  ['description', 'DESCRIPTION'],
+];
+
+export class InMemoryArkeBackend {
+  readonly ipfsWrapperUrl: string;
+  readonly reprocessApiUrl: string;
+  readonly orchestratorUrl: string;
+
+  /** Every request handled, in order */
+  readonly requests: RecordedRequest[] = [];
+
+  private regenerate: (context: RegenerateContext) => string;
+  private authorize?: (token: string | undefined, request: RecordedRequest) => number | void;
+  private streaming: boolean;
+  private entityStatus: boolean;
+  private versions = new Map<string, Entity[]>();
+  private content = new Map<string, StoredContent>();
+  private batches = new Map<string, BatchRecord>();
+  private failures: InjectedFailure[] = [];
+  private batchCounter = 0;
+  private clock = Date.parse('2025-01-01T00:00:00.000Z');
+
+  constructor(config?: InMemoryArkeBackendConfig) {
+    this.ipfsWrapperUrl = (config?.ipfsWrapperUrl ?? 'https://api.arke.institute').replace(/\/$/, '');
+    this.reprocessApiUrl = (config?.reprocessApiUrl ?? 'https://reprocess-api.arke.institute').replace(/\/$/, '');
+    this.orchestratorUrl = (config?.orchestratorUrl ?? 'https://orchestrator.arke.institute').replace(/\/$/, '');
+    this.regenerate = config?.regenerate ?? defaultRegenerate;
+    this.authorize = config?.authorize;
+    this.streaming = config?.streaming ?? true;
+    this.entityStatus = config?.entityStatus ?? true;
+  }
+
+  /**
+   * Client configuration pointing at this backend, using it as the transport
+   */
+  get clientConfig(): ArkeClientConfig {
+    return {
+      ipfsWrapperUrl: this.ipfsWrapperUrl,
+      reprocessApiUrl: this.reprocessApiUrl,
+      transport: this.fetch,
+    };
+  }
+
+  // ===========================================================================
+  // Seeding & Inspection
+  // ===========================================================================
+
+  /**
+   * Create an entity at version 1. Links it into its parent's children_pi.
+   */
+  addEntity(seed: SeedEntity): Entity {
+    if (this.versions.has(seed.pi)) {
+      throw new Error(`Entity already exists: ${seed.pi}`);
+    }
+
+    const components: Record<string, string> = {};
+    for (const [name, value] of Object.entries(seed.components ?? {})) {
+      components[name] = this.putContent(value, detectContentType(name));
+    }
+
+    const entity = this.writeVersion(seed.pi, null, {
+      components,
+      children_pi: [...(seed.children_pi ?? [])],
+      parent_pi: seed.parent_pi,
+      note: seed.note ?? 'Initial version',
+    });
+
+    if (seed.parent_pi) {
+      const parent = this.tip(seed.parent_pi);
+      if (parent && !parent.children_pi.includes(seed.pi)) {
+        parent.children_pi.push(seed.pi);
+      }
+    }
+
+    return clone(entity);
+  }
+
+  /**
+   * Store content and return its CID (identical content yields the same CID)
+   */
+  putContent(value: string | Uint8Array, contentType?: string): string {
+    const bytes = typeof value === 'string' ? new TextEncoder().encode(value) : value;
+    const cid = computeCid(bytes);
+    this.content.set(cid, {
+      bytes,
+      type: contentType ?? (typeof value === 'string' ? 'text/plain' : 'application/octet-stream'),
+    });
+    return cid;
+  }
+
+  /**
+   * Current tip of an entity
+   */
+  getEntity(pi: string): Entity | undefined {
+    const entity = this.tip(pi);
+    return entity ? clone(entity) : undefined;
+  }
+
+  /**
+   * All versions of an entity, oldest first
+   */
+  getVersions(pi: string): Entity[] {
+    return (this.versions.get(pi) ?? []).map(clone);
+  }
+
+  /**
+   * Content stored under a CID
+   */
+  getContent(cid: string): string | undefined {
+    const stored = this.content.get(cid);
+    return stored && new TextDecoder().decode(stored.bytes);
+  }
+
+  /**
+   * Bytes and content type stored under a CID
+   */
+  getContentBytes(cid: string): StoredContent | undefined {
+    return this.content.get(cid);
+  }
+
+  /**
+   * Content of an entity component at its current tip
+   */
+  getComponent(pi: string, name: string): string | undefined {
+    const cid = this.tip(pi)?.components[name];
+    return cid ? this.getContent(cid) : undefined;
+  }
+
+  /**
+   * Batch created by a reprocess request
+   */
+  getBatch(batchId: string): BatchRecord | undefined {
+    return this.batches.get(batchId);
+  }
+
+  /**
+   * Respond to the next matching request with an error status instead of handling it
+   */
+  failNext(failure: InjectedFailure): void {
+    this.failures.push(failure);
+  }
+
+  /**
+   * Replace globalThis.fetch with this backend, for code that builds its own
+   * client config. Returns a function restoring the original.
+   */
+  install(): () => void {
+    const original = globalThis.fetch;
+    globalThis.fetch = this.fetch as typeof fetch;
+    return () => {
+      globalThis.fetch = original;
+    };
+  }
+
+  // ===========================================================================
+  // Request Handling
+  // ===========================================================================
+
+  /**
+   * fetch-compatible entry point
+   */
+  fetch = async (input: RequestInfo | URL, init?: RequestInit): Promise<Response> => {
+    const request = new Request(input, init);
+    const url = new URL(request.url);
+    const method = request.method.toUpperCase();
+    const body = await readBody(request);
+
+    const recorded: RecordedRequest = { method, url: request.url, body };
+    this.requests.push(recorded);
+
+    const token = request.headers.get('Authorization')?.replace(/^Bearer /, '');
+    const rejection = this.authorize?.(token, recorded);
+    if (rejection) {
+      return json({ error: rejection === 401 ? 'Unauthorized' : 'Forbidden' }, rejection);
+    }
+
+    const failureIndex = this.failures.findIndex(
+      (f) =>
+        (!f.method || f.method.toUpperCase() === method) &&
+        (typeof f.path === 'string' ? url.pathname === f.path : f.path.test(url.pathname))
+    );
+    if (failureIndex !== -1) {
+      const [failure] = this.failures.splice(failureIndex, 1);
+      return json(failure.body ?? { error: 'Injected failure' }, failure.status, failure.headers);
+    }
+
+    const address = `${url.origin}${url.pathname}`;
+    if (address.startsWith(`${this.ipfsWrapperUrl}/`)) {
+      return this.handleIpfs(method, address.slice(this.ipfsWrapperUrl.length), url.searchParams, body);
+    }
+    if (address.startsWith(`${this.reprocessApiUrl}/`)) {
+      return this.handleReprocess(method, address.slice(this.reprocessApiUrl.length), body);
+    }
+    if (address.startsWith(`${this.orchestratorUrl}/`)) {
+      const stream = this.streaming && !!request.headers.get('Accept')?.includes('text/event-stream');
+      return this.handleOrchestrator(method, address.slice(this.orchestratorUrl.length), stream);
+    }
+
+    return json({ error: `No route for ${request.url}` }, 404);
+  };
+
+  private handleIpfs(method: string, path: string, query: URLSearchParams, body: unknown): Response {
+    let match: RegExpMatchArray | null;
+
+    if (method === 'GET' && (match = path.match(/^\/entities\/([^/]+)$/))) {
+      const entity = this.tip(match[1]);
+      return entity ? json(entity) : json({ error: 'Not found' }, 404);
+    }
+
+    if (method === 'GET' && (match = path.match(/^\/entities\/([^/]+)\/versions$/))) {
+      return this.handleListVersions(match[1], query);
+    }
+
+    if (method === 'GET' && (match = path.match(/^\/entities\/([^/]+)\/versions\/([^/]+)$/))) {
+      const [kind, value] = decodeURIComponent(match[2]).split(':');
+      const entity = (this.versions.get(match[1]) ?? []).find((v) =>
+        kind === 'ver' ? v.ver === Number(value) : kind === 'cid' && v.manifest_cid === value
+      );
+      return entity ? json(entity) : json({ error: 'Not found' }, 404);
+    }
+
+    if (method === 'POST' && (match = path.match(/^\/entities\/([^/]+)\/versions$/))) {
+      return this.handleAppendVersion(match[1], body as Record<string, unknown>);
+    }
+
+    if (method === 'GET' && (match = path.match(/^\/cat\/([^/]+)$/))) {
+      const stored = this.content.get(match[1]);
+      return stored === undefined
+        ? json({ error: 'Not found' }, 404)
+        : new Response(new Uint8Array(stored.bytes), { status: 200, headers: { 'Content-Type': stored.type } });
+    }
+
+    if (method === 'POST' && path === '/upload') {
+      const files = body as UploadedFile[];
+      return json(
+        files.map((file) => ({
+          cid: this.putContent(file.content, file.type),
+          name: file.name,
+          size: file.content.length,
+        }))
+      );
+    }
+
+    return json({ error: `No route for ${method} ${path}` }, 404);
+  }
+
+  private handleListVersions(pi: string, query: URLSearchParams): Response {
+    const chain = this.versions.get(pi);
+    if (!chain) {
+      return json({ error: 'Not found' }, 404);
+    }
+
+    // Newest first; the cursor is the version number to continue below
+    const limit = Math.max(1, Math.min(Number(query.get('limit')) || 50, 1000));
+    const cursor = query.get('cursor');
+    const start = cursor ? chain.length - Number(cursor) + 1 : 0;
+    const page = [...chain].reverse().slice(start, start + limit);
+    const last = page[page.length - 1];
+
+    return json({
+      items: page.map((v) => ({ ver: v.ver, cid: v.manifest_cid, ts: v.ts, note: v.note })),
+      next_cursor: last && last.ver > 1 ? String(last.ver) : null,
+    });
+  }
+
+  private handleAppendVersion(pi: string, body: Record<string, unknown>): Response {
+    const current = this.tip(pi);
+    if (!current) {
+      return json({ error: 'Not found' }, 404);
+    }
+    if (!body || typeof body.expect_tip !== 'string') {
+      return json({ error: 'expect_tip is required' }, 400);
+    }
+    if (body.expect_tip !== current.manifest_cid) {
+      return json({ error: 'CAS failure', actual_tip: current.manifest_cid }, 409);
+    }
+
+    const components = { ...current.components, ...((body.components as Record<string, string>) ?? {}) };
+    for (const name of (body.components_remove as string[]) ?? []) {
+      delete components[name];
+    }
+
+    const entity = this.writeVersion(pi, current, {
+      components,
+      children_pi: current.children_pi,
+      parent_pi: current.parent_pi,
+      note: typeof body.note === 'string' ? body.note : undefined,
+    });
+
+    return json({ pi, tip: entity.manifest_cid, ver: entity.ver }, 201);
+  }
+
+  private handleReprocess(method: string, path: string, body: unknown): Response {
+    if (method === 'POST' && path === '/api/reprocess') {
+      const request = body as ReprocessRequest;
+      if (!request?.pi || !Array.isArray(request.phases)) {
+        return json({ message: 'pi and phases are required' }, 400);
+      }
+      if (!this.tip(request.pi)) {
+        return json({ message: `Entity not found: ${request.pi}` }, 404);
+      }
+
+      const batch = this.createBatch(request);
+      const result: ReprocessResult = {
+        batch_id: batch.batch_id,
+        entities_queued: batch.entity_pis.length,
+        entity_pis: [...batch.entity_pis],
+        status_url: `${this.orchestratorUrl}/status/${batch.batch_id}`,
+      };
+      return json(result);
+    }
+
+    const cancel = path.match(/^\/api\/reprocess\/([^/]+)\/cancel$/);
+    if (method === 'POST' && cancel) {
+      const batch = this.batches.get(decodeURIComponent(cancel[1]));
+      if (!batch) {
+        return json({ message: 'Batch not found' }, 404);
+      }
+
+      const step = batch.steps[batch.position];
+      if (step === 'DONE' || step === 'ERROR') {
+        return json({ message: `Batch already finished: ${step}` }, 409);
+      }
+      if (step !== 'CANCELLED') {
+        // The next status observed is CANCELLED; nothing further is regenerated
+        batch.steps = [...batch.steps.slice(0, batch.position), 'CANCELLED'];
+        batch.completed_at = this.now();
+      }
+      return json(this.describeBatch(batch));
+    }
+
+    return json({ message: `No route for ${method} ${path}` }, 404);
+  }
+
+  private handleOrchestrator(method: string, path: string, stream: boolean): Response {
+    const match = path.match(/^\/status\/([^/]+)$/);
+    if (method !== 'GET' || !match) {
+      return json({ error: `No route for ${method} ${path}` }, 404);
+    }
+
+    const batch = this.batches.get(match[1]);
+    if (!batch) {
+      return json({ error: 'Batch not found' }, 404);
+    }
+
+    if (!stream) {
+      return json(this.advanceBatch(batch));
+    }
+
+    // One event per step, produced as the client reads, ending at DONE
+    const encoder = new TextEncoder();
+    let finished = false;
+    const body = new ReadableStream<Uint8Array>({
+      pull: (controller) => {
+        if (finished) {
+          controller.close();
+          return;
+        }
+        const status = this.advanceBatch(batch);
+        finished = status.status === 'DONE' || status.status === 'ERROR' || status.status === 'CANCELLED';
+        controller.enqueue(encoder.encode(`event: status\ndata: ${JSON.stringify(status)}\n\n`));
+      },
+    });
+    return new Response(body, { status: 200, headers: { 'Content-Type': 'text/event-stream' } });
+  }
+
+  // ===========================================================================
+  // Private Helpers
+  // ===========================================================================
+
+  private tip(pi: string): Entity | undefined {
+    const chain = this.versions.get(pi);
+    return chain ? chain[chain.length - 1] : undefined;
+  }
+
+  /**
+   * Observe the current step of a batch, then move it forward
+   */
+  private advanceBatch(batch: BatchRecord): ReprocessStatus {
+    const status = this.describeBatch(batch);
+    if (batch.position < batch.steps.length - 1) {
+      batch.position++;
+      if (batch.steps[batch.position] === 'DONE') {
+        this.completeBatch(batch); // May turn the step into ERROR
+      }
+    }
+    return status;
+  }
+
+  private createBatch(request: ReprocessRequest): BatchRecord {
+    const entityPis = [request.pi];
+    if (request.cascade) {
+      const stopAt = request.options?.stop_at_pi;
+      let parent = this.tip(request.pi)?.parent_pi;
+      while (parent && parent !== stopAt && this.tip(parent)) {
+        entityPis.push(parent);
+        parent = this.tip(parent)?.parent_pi;
+      }
+    }
+
+    const steps: ReprocessPhase[] = ['QUEUED', 'DISCOVERY'];
+    for (const [component, phase] of PHASE_ORDER) {
+      if (request.phases.includes(component)) {
+        steps.push(phase);
+      }
+    }
+    steps.push('DONE');
+
+    const batch: BatchRecord = {
+      batch_id: `reprocess_${String(++this.batchCounter).padStart(6, '0')}`,
+      request,
+      entity_pis: entityPis,
+      steps,
+      position: 0,
+      results: {},
+      started_at: this.now(),
+    };
+    this.batches.set(batch.batch_id, batch);
+    return batch;
+  }
+
+  private completeBatch(batch: BatchRecord): void {
+    for (const pi of batch.entity_pis) {
+      const current = this.tip(pi)!;
+      const components = { ...current.components };
+
+      try {
+        for (const component of batch.request.phases) {
+          const filename = COMPONENT_FILES[component];
+          if (!filename) continue;
+          const existing = current.components[filename];
+          components[filename] = this.putContent(
+            this.regenerate({
+              pi,
+              component,
+              filename,
+              current: existing ? this.getContent(existing) : undefined,
+              request: batch.request,
+            })
+          );
+        }
+      } catch (error) {
+        batch.results[pi] = { error: error instanceof Error ? error.message : String(error) };
+        continue;
+      }
+
+      const written = this.writeVersion(pi, current, {
+        components,
+        children_pi: current.children_pi,
+        parent_pi: current.parent_pi,
+        note: batch.request.options?.custom_note ?? `Reprocessed: ${batch.request.phases.join(', ')}`,
+      });
+      batch.results[pi] = { version: written.ver, tip: written.manifest_cid };
+    }
+
+    const failed = batch.entity_pis.filter((pi) => batch.results[pi].error);
+    if (failed.length > 0) {
+      // Partial failure: the batch finishes as ERROR instead of DONE
+      batch.steps[batch.position] = 'ERROR';
+      batch.error = `${failed.length} of ${batch.entity_pis.length} entities failed`;
+    }
+    batch.completed_at = this.now();
+  }
+
+  private describeBatch(batch: BatchRecord): ReprocessStatus {
+    const step = batch.steps[batch.position];
+    const passed = (phase: ReprocessPhase): number => {
+      const index = batch.steps.indexOf(phase);
+      return index !== -1 && batch.position > index ? batch.entity_pis.length : 0;
+    };
+    const progress: ReprocessProgress = {
+      directories_total: batch.entity_pis.length,
+      directories_pinax_complete: passed('PINAX_EXTRACTION'),
+      directories_cheimarros_complete: passed('CHEIMARROS_EXTRACTION'),
+      directories_description_complete: passed('DESCRIPTION'),
+    };
+    const entities = batch.entity_pis.map((pi): EntityReprocessStatus => {
+      const result = batch.results[pi];
+      if (!result) {
+        return { pi, status: step };
+      }
+      return result.error
+        ? { pi, status: 'ERROR', error: result.error }
+        : { pi, status: 'DONE', new_version: result.version, new_tip: result.tip };
+    });
+
+    return {
+      batch_id: batch.batch_id,
+      status: step,
+      progress,
+      entities: this.entityStatus ? entities : undefined,
+      root_pi: batch.entity_pis[batch.entity_pis.length - 1],
+      error: step === 'ERROR' ? batch.error : undefined,
+      started_at: batch.started_at,
+      completed_at: step === 'DONE' || step === 'ERROR' || step === 'CANCELLED' ? batch.completed_at : undefined,
+    };
+  }
+
+  private writeVersion(
+    pi: string,
+    previous: Entity | null,
+    fields: Pick<Entity, 'components' | 'children_pi' | 'parent_pi' | 'note'>
+  ): Entity {
+    const ver = previous ? previous.ver + 1 : 1;
+    const ts = this.now();
+    const manifest = { pi, ver, ts, prev: previous?.manifest_cid ?? null, ...fields };
+    const entity: Entity = {
+      pi,
+      ver,
+      ts,
+      manifest_cid: computeCid(new TextEncoder().encode(JSON.stringify(manifest))),
+      components: { ...fields.components },
+      children_pi: [...fields.children_pi],
+      note: fields.note,
+    };
+    if (fields.parent_pi) {
+      entity.parent_pi = fields.parent_pi;
+    }
+
+    const chain = this.versions.get(pi) ?? [];
+    chain.push(entity);
+    this.versions.set(pi, chain);
+    return entity;
+  }
+
+  /** Deterministic, strictly increasing timestamps */
+  private now(): string {
+    this.clock += 1000;
+    return new Date(this.clock).toISOString();
+  }
+}
+
+function defaultRegenerate(context: RegenerateContext): string {
+  const prompt = context.request.options?.custom_prompts?.[context.component];
+  if (context.filename.endsWith('.json')) {
+    let base: Record<string, unknown> = {};
+    try {
+      base = context.current ? JSON.parse(context.current) : {};
+    } catch {
+      // Not JSON; start fresh
+    }
+    return JSON.stringify({ ...base, regenerated: true }, null, 2);
+  }
+  const marker = prompt ? `[regenerated: ${prompt}]` : '[regenerated]';
+  return context.current ? `${context.current}\n\n${marker}` : marker;
+}
+
+/**
+ * Stand-in content identifier: two FNV-1a passes rendered in base32
+ */
+function computeCid(value: Uint8Array): string {
+  let a = 0x811c9dc5;
+  let b = 0x01000193;
+  for (let i = 0; i < value.length; i++) {
+    const code = value[i];
+    a = Math.imul(a ^ code, 0x01000193) >>> 0;
+    b = Math.imul(b ^ code, 0x811c9dc5) >>> 0;
+  }
+  return `bafk${a.toString(32).padStart(7, '0')}${b.toString(32).padStart(7, '0')}${value.length.toString(32)}`;
+}
+
+async function readBody(request: Request): Promise<unknown> {
+  if (request.method === 'GET' || request.method === 'HEAD') {
+    return undefined;
+  }
+
+  const contentType = request.headers.get('Content-Type') ?? '';
+  if (contentType.includes('multipart/form-data')) {
+    const form = await request.formData();
+    const files: UploadedFile[] = [];
+    for (const value of form.getAll('file')) {
+      if (typeof value !== 'string') {
+        files.push({ name: value.name, type: value.type, content: new Uint8Array(await value.arrayBuffer()) });
+      }
+    }
+    return files;
+  }
+
+  const text = await request.text();
+  if (!text) return undefined;
+  try {
+    return JSON.parse(text);
+  } catch {
+    return text;
+  }
+}
+
+function json(body: unknown, status = 200, headers?: Record<string, string>): Response {
+  return new Response(JSON.stringify(body), {
+    status,
+    headers: { 'Content-Type': 'application/json', ...headers },
+  });
+}
+
+function clone<T>(value: T): T {
+  return JSON.parse(JSON.stringify(value));
+}
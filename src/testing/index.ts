@@ -0,0 +1,16 @@
+/**
+ * Offline testing utilities for Arke Edit SDK
+ */
+
+export { InMemoryArkeBackend } from './backend';
+export type {
+  InMemoryArkeBackendConfig,
+  RegenerateContext,
+  SeedEntity,
+  RecordedRequest,
+  InjectedFailure,
+  BatchRecord,
+  EntityResult,
+  StoredContent,
+  UploadedFile,
+} from './backend';
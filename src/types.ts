@@ -2,6 +2,9 @@
  * Arke Edit SDK - Type Definitions
  */
 
+import type { ContentCache } from './cache';
+import type { EditSession } from './session';
+
 // ============================================================================
 // Configuration
 // ============================================================================
@@ -9,7 +12,30 @@
 export interface ArkeClientConfig {
   ipfsWrapperUrl: string;
   reprocessApiUrl: string;
-  authToken?: string;
+  /**
+   * Bearer token, or a provider called before every request so expiring
+   * tokens can be refreshed.
+   * @example
+   * authToken: async () => (await session.getAccessToken()).token
+   */
+  authToken?: string | AuthTokenProvider;
+  /**
+   * Optional hook called when a request is rejected with 401. Refresh
+   * credentials here; the request is retried once with a freshly provided
+   * token unless the hook returns false.
+   */
+  onUnauthorized?: () => boolean | void | Promise<boolean | void>;
+  /**
+   * Retry policy for transient failures, merged over the SDK defaults.
+   * Pass false to disable retries. Can be overridden per call.
+   */
+  retry?: RetryPolicy | false;
+  /**
+   * Optional cache for content fetched by CID. Content is immutable, so
+   * cached entries never go stale. Pass a ContentCache to share it between
+   * clients or read its statistics.
+   */
+  cache?: ContentCache | ContentCacheOptions;
   /**
    * Optional function to transform status URLs before fetching.
    * Use this to proxy status requests through your own server to avoid CORS issues.
@@ -17,13 +43,149 @@ export interface ArkeClientConfig {
    * statusUrlTransform: (url) => url.replace('https://orchestrator.arke.institute', '/api/orchestrator')
    */
   statusUrlTransform?: (url: string) => string;
+  /**
+   * How reprocess status updates are received (default: 'auto'). Streaming
+   * falls back to polling when the service or runtime does not support it.
+   */
+  statusStream?: StatusStreamMode;
+  /**
+   * How the auth token is sent when status is streamed over a WebSocket,
+   * whose handshake cannot carry an Authorization header: 'protocol' offers
+   * it as a `bearer.<token>` subprotocol, 'query' appends an `access_token`
+   * parameter (visible in server and proxy logs). When unset, clients with a
+   * token do not use WebSockets and poll instead.
+   */
+  webSocketAuth?: 'protocol' | 'query';
+  /**
+   * Optional transport used for every request instead of the global fetch.
+   * Accepts a fetch-compatible function or an adapter object.
+   * @example
+   * transport: (url, init) => fetch(url, { ...init, dispatcher: proxyAgent })
+   */
+  transport?: FetchLike | ArkeTransport;
+  /**
+   * Optional hooks run around every request (headers, logging, tracing).
+   */
+  interceptors?: {
+    request?: RequestInterceptor[];
+    response?: ResponseInterceptor[];
+  };
 }
 
-export type EditMode = 'ai-prompt' | 'manual-with-review' | 'manual-only';
+export type AuthTokenProvider = () => string | undefined | Promise<string | undefined>;
+
+// ============================================================================
+// Content Cache
+// ============================================================================
+
+/**
+ * Persistent tier of the content cache (filesystem, IndexedDB, ...)
+ */
+export interface ContentCacheStorage {
+  get(cid: string): Promise<string | undefined>;
+  set(cid: string, content: string): Promise<void>;
+  delete?(cid: string): Promise<void>;
+  clear?(): Promise<void>;
+}
+
+export interface ContentCacheOptions {
+  maxEntries?: number; // In-memory LRU size (default: 500)
+  storage?: ContentCacheStorage; // Optional persistent tier
+}
+
+export interface CacheStats {
+  hits: number;
+  misses: number;
+  memoryHits: number;
+  storageHits: number;
+  evictions: number;
+  storageErrors: number;
+  entries: number; // Entries currently held in memory
+}
+
+// ============================================================================
+// Transport
+// ============================================================================
+
+export interface RequestOptions {
+  signal?: AbortSignal; // Cancels the operation with CancelledError
+  retry?: RetryPolicy | false; // Overrides the client's retry policy for this call
+}
+
+export interface RetryPolicy {
+  maxRetries?: number; // Attempts after the first (default: 3; status polling: 5)
+  initialDelayMs?: number; // Default: 500 (status polling: 2000)
+  maxDelayMs?: number; // Default: 30000
+  backoffMultiplier?: number; // Default: 2
+  jitter?: number; // Fraction of each delay randomized, 0-1 (default: 0.2)
+  retryOn?: number[]; // Retryable statuses (default: 408, 429, 500, 502, 503, 504)
+  respectRetryAfter?: boolean; // Wait as long as Retry-After asks on 429/503, up to maxDelayMs (default: true)
+}
+
+export type FetchLike = (url: string, init: RequestInit) => Promise<Response>;
+
+export interface ArkeTransport {
+  request(url: string, init: RequestInit): Promise<Response>;
+}
+
+export type ArkeOperation =
+  | 'getEntity'
+  | 'listVersions'
+  | 'getEntityVersion'
+  | 'getContent'
+  | 'uploadContent'
+  | 'updateEntity'
+  | 'reprocess'
+  | 'cancelReprocess'
+  | 'getReprocessStatus'
+  | 'watchReprocessStatus';
+
+export interface ArkeRequest {
+  operation: ArkeOperation;
+  url: string;
+  method: string;
+  headers: Record<string, string>;
+  body?: BodyInit;
+  signal?: AbortSignal;
+}
+
+/**
+ * Runs before a request is sent. May mutate the request or return a replacement.
+ */
+export type RequestInterceptor = (
+  request: ArkeRequest
+) => ArkeRequest | void | Promise<ArkeRequest | void>;
+
+/**
+ * Runs after a response is received. May return a replacement response.
+ */
+export type ResponseInterceptor = (
+  response: Response,
+  request: ArkeRequest
+) => Response | void | Promise<Response | void>;
+
+/**
+ * How a session edits an entity:
+ * - 'ai-prompt': free-form prompts only
+ * - 'manual-with-review': manual edits, reviewed by the AI on regeneration
+ * - 'manual-only': manual edits, no prompts
+ * - 'hybrid': manual edits saved first, then regenerated with both the edit
+ *   context and free-form general and per-component prompts
+ */
+export type EditMode = 'ai-prompt' | 'manual-with-review' | 'manual-only' | 'hybrid';
+
+/**
+ * How submit() handles a CAS conflict when saving manual edits:
+ * - 'fail': throw CASConflictError (default)
+ * - 'rebase': reload the new tip, three-way merge the edits and retry
+ */
+export type ConflictStrategy = 'fail' | 'rebase';
 
 export interface EditSessionConfig {
   mode: EditMode;
   aiReviewEnabled?: boolean; // Default: true for manual modes
+  conflictStrategy?: ConflictStrategy; // Default: 'fail'
+  historyLimit?: number; // Undo steps kept. Default: 100
 }
 
 // ============================================================================
@@ -54,11 +216,56 @@ export interface EntityVersion {
   ver: number;
 }
 
+export interface VersionHistoryEntry {
+  ver: number;
+  tip: string; // manifest_cid of this version
+  ts: string;
+  note?: string;
+}
+
+export interface VersionHistoryPage {
+  versions: VersionHistoryEntry[]; // Newest first
+  nextCursor?: string; // Pass to listVersions() for the next (older) page
+}
+
+export interface EntitySnapshot {
+  entity: Entity;
+  components: Record<string, string>; // component name -> content
+}
+
+/**
+ * Byte content of a non-text component (image, PDF, page scan, ...)
+ */
+export type BinaryContent = Uint8Array | Blob | ReadableStream<Uint8Array>;
+
+export interface UploadOptions extends RequestOptions {
+  contentType?: string; // Default: a Blob's own type, else detected from the filename
+}
+
+export interface EntityTreeNode {
+  entity: Entity;
+  depth: number; // 0 for the entity the traversal started from
+  children: EntityTreeNode[]; // In children_pi order; empty below maxDepth
+}
+
+export interface AncestorOptions extends RequestOptions {
+  stopAtPi?: string; // Stop below this ancestor (exclusive, like EditScope.stopAtPi)
+}
+
+export interface TraversalOptions extends RequestOptions {
+  maxDepth?: number; // Levels below the start entity to visit (default: unlimited)
+  concurrency?: number; // Entities fetched in parallel (default: 4)
+}
+
 // ============================================================================
 // Edit Types
 // ============================================================================
 
-export type RegeneratableComponent = 'pinax' | 'description' | 'cheimarros';
+/**
+ * What a reprocess regenerates. 'reorganization' restructures how the
+ * entity's files are grouped into child entities.
+ */
+export type RegeneratableComponent = 'pinax' | 'description' | 'cheimarros' | 'reorganization';
 
 export interface EditScope {
   components: RegeneratableComponent[]; // Which components to regenerate
@@ -87,18 +294,43 @@ export interface TextDiff {
   context?: string;
 }
 
+export type ComponentChange = 'added' | 'modified' | 'removed';
+
 export interface ComponentDiff {
   componentName: string;
+  change?: ComponentChange; // Default: 'modified'
+  binary?: boolean; // Binary content is replaced wholesale; diffs are empty
   diffs: TextDiff[];
   summary: string; // Human-readable summary
   hasChanges: boolean;
 }
 
+export interface MergeConflictHunk {
+  baseLine: number; // 1-based line in the base text where the hunk starts
+  base: string;
+  local: string;
+  remote: string;
+}
+
+export interface MergeResult {
+  merged: string; // Conflicting regions are wrapped in conflict markers
+  clean: boolean;
+  conflicts: MergeConflictHunk[];
+}
+
+export interface ComponentConflict {
+  componentName: string;
+  hunks: MergeConflictHunk[];
+  merged: string; // Merge result with conflict markers
+  remote: string; // Content at the new tip
+  binary?: boolean; // Replaced binary content, which cannot be merged (no hunks or text)
+}
+
 // ============================================================================
 // Prompt Types
 // ============================================================================
 
-export type PromptTarget = RegeneratableComponent | 'general' | 'reorganization';
+export type PromptTarget = RegeneratableComponent | 'general';
 
 export interface EntityContext {
   pi: string;
@@ -109,8 +341,8 @@ export interface EntityContext {
 }
 
 export interface CascadeContext {
-  path: string[]; // PIs from current to root
-  depth: number;
+  path: string[]; // PIs the cascade updates, from the edited entity upward
+  depth: number; // Ancestor levels the cascade climbs (path.length - 1)
   stopAtPi?: string;
 }
 
@@ -153,7 +385,8 @@ export type ReprocessPhase =
   | 'CHEIMARROS_EXTRACTION'
   | 'DESCRIPTION'
   | 'DONE'
-  | 'ERROR';
+  | 'ERROR'
+  | 'CANCELLED';
 
 export interface ReprocessProgress {
   directories_total: number;
@@ -162,16 +395,36 @@ export interface ReprocessProgress {
   directories_description_complete: number;
 }
 
+export interface EntityReprocessStatus {
+  pi: string;
+  status: ReprocessPhase; // DONE / ERROR once this entity is finished
+  error?: string;
+  new_version?: number; // Version written by the batch
+  new_tip?: string;
+}
+
 export interface ReprocessStatus {
   batch_id: string;
   status: ReprocessPhase;
   progress: ReprocessProgress;
+  entities?: EntityReprocessStatus[]; // Per-entity breakdown, when reported
   root_pi?: string;
   error?: string;
   started_at?: string;
   completed_at?: string;
 }
 
+/**
+ * Delivery of status updates: pushed over Server-Sent Events or a WebSocket,
+ * or polled. 'auto' picks SSE when responses can be streamed, then WebSocket.
+ */
+export type StatusStreamMode = 'auto' | 'sse' | 'websocket' | 'poll';
+
+export interface StatusStreamOptions extends RequestOptions {
+  mode?: StatusStreamMode; // Default: the client's statusStream
+  intervalMs?: number; // Polling interval when not streaming (default: 2000)
+}
+
 // ============================================================================
 // Result Types
 // ============================================================================
@@ -190,19 +443,39 @@ export interface EditResult {
   reprocess?: ReprocessResult;
 }
 
-export type EditPhase = 'idle' | 'saving' | 'reprocessing' | 'complete' | 'error';
+export interface RollbackOptions extends RequestOptions {
+  components?: string[]; // Components to restore (default: the whole component map)
+  note?: string; // Version note (default: generated)
+  expectTip?: string; // Tip the entity must still be at; CASConflictError otherwise (default: the current tip)
+}
+
+export interface BatchRollbackOptions extends Omit<RollbackOptions, 'expectTip'> {
+  /**
+   * Version to restore per PI. PIs not listed are restored to the version
+   * the batch replaced.
+   */
+  versions?: Record<string, number>;
+}
+
+export type EditPhase = 'idle' | 'saving' | 'reprocessing' | 'complete' | 'error' | 'cancelled';
 
 export interface EditStatus {
   phase: EditPhase;
   saveComplete: boolean;
   reprocessStatus?: ReprocessStatus;
   error?: string;
+  // Per-entity outcome, when the orchestrator reports entities
+  succeededPis?: string[];
+  failedPis?: string[];
+  pendingPis?: string[]; // Not finished yet (or never reached, if cancelled)
 }
 
 export interface PollOptions {
-  intervalMs?: number; // Default: 2000
+  intervalMs?: number; // Polling interval when not streaming. Default: 2000
   timeoutMs?: number; // Default: 300000 (5 min)
   onProgress?: (status: EditStatus) => void;
+  signal?: AbortSignal; // Stops polling with CancelledError
+  stream?: StatusStreamMode; // Default: the client's statusStream
 }
 
 // ============================================================================
@@ -213,6 +486,8 @@ export interface ChangeSummary {
   mode: EditMode;
   hasManualEdits: boolean;
   editedComponents: string[];
+  addedComponents: string[];
+  removedComponents: string[];
   corrections: Correction[];
   prompts: Record<string, string>;
   scope: EditScope;
@@ -220,6 +495,109 @@ export interface ChangeSummary {
   willCascade: boolean;
   willSave: boolean;
   willReprocess: boolean;
+  customPrompts?: CustomPrompts; // Prompts sent with the reprocess request, when willReprocess
+  impact?: ImpactEstimate; // Set once estimateImpact() has run for the current scope
+}
+
+export interface EntityImpact {
+  pi: string;
+  ver: number; // Current version; regeneration writes a new one
+  depth: number; // 0 for the edited entity, 1 for its parent, ...
+  components: RegeneratableComponent[]; // Components regenerated for this entity
+}
+
+export interface ImpactEstimate {
+  entities: EntityImpact[]; // Edited entity first, then each ancestor updated by the cascade
+  entityCount: number;
+}
+
+export interface PlannedUpload {
+  type: 'upload';
+  component: string; // Uploaded under the component name as filename
+  contentType: string;
+  size: number; // Bytes
+  content?: string; // Text content; omitted for binary components
+}
+
+export interface PlannedEntityUpdate {
+  type: 'updateEntity';
+  pi: string;
+  update: EntityUpdate; // Uploaded components map to `upload:<component>` placeholders
+}
+
+export interface PlannedReprocess {
+  type: 'reprocess';
+  request: ReprocessRequest;
+}
+
+export type PlannedOperation = PlannedUpload | PlannedEntityUpdate | PlannedReprocess;
+
+export interface SubmitPlan {
+  pi: string;
+  note: string;
+  operations: PlannedOperation[]; // In the order submit() performs them
+}
+
+// ============================================================================
+// History & Events
+// ============================================================================
+
+export interface HistoryState {
+  canUndo: boolean;
+  canRedo: boolean;
+  undoLabel?: string; // Label of the change undo() reverts, e.g. "Edit description.md"
+  redoLabel?: string;
+}
+
+/** Events emitted by EditSession, by name and payload */
+export interface EditSessionEvents {
+  loaded: { entity: Entity }; // load(), rebase() or restoreDraft() set a new base
+  contentChanged: { components: string[] }; // Components edited, added, removed or cleared
+  promptChanged: { targets: PromptTarget[] };
+  correctionsChanged: { corrections: Correction[] };
+  scopeChanged: { scope: EditScope };
+  historyChanged: HistoryState;
+  submitPhaseChanged: { phase: EditPhase };
+  statusUpdated: EditStatus; // Each reprocess status received
+}
+
+// ============================================================================
+// Drafts
+// ============================================================================
+
+export interface DraftBinaryContent {
+  contentType: string;
+  base64: string;
+}
+
+/**
+ * Serialized draft state of an EditSession, restored with
+ * ArkeEditSDK.restoreSession()
+ */
+export interface SessionDraft {
+  version: 1; // Draft format version
+  pi: string;
+  createdAt: string; // ISO 8601
+  mode: EditMode;
+  aiReviewEnabled: boolean;
+  conflictStrategy: ConflictStrategy;
+  historyLimit?: number; // Absent in drafts from before it was recorded
+  base: { manifest_cid: string; ver: number } | null; // Version the edits were made against; null if not loaded
+  prompts: Record<string, string>;
+  editedContent: Record<string, string>;
+  binaryContent: Record<string, DraftBinaryContent>;
+  removedComponents: string[];
+  corrections: Correction[];
+  scope: EditScope;
+  batches: ReprocessResult[]; // Reprocess batches the session follows
+  result: EditResult | null;
+  reprocessRequest: ReprocessRequest | null;
+}
+
+export interface RestoredSession {
+  session: EditSession;
+  tipMoved: boolean; // The entity has new versions since the draft was taken
+  currentTip?: string; // Tip manifest_cid at restore time, if the draft was loaded
 }
 
 // ============================================================================
@@ -244,6 +622,13 @@ export class EntityNotFoundError extends ArkeEditError {
   }
 }
 
+export class VersionNotFoundError extends ArkeEditError {
+  constructor(pi: string, ver: number) {
+    super(`Version ${ver} not found for entity ${pi}`, 'VERSION_NOT_FOUND', { pi, ver });
+    this.name = 'VersionNotFoundError';
+  }
+}
+
 export class CASConflictError extends ArkeEditError {
   constructor(pi: string, expectedTip: string, actualTip: string) {
     super(
@@ -255,10 +640,153 @@ export class CASConflictError extends ArkeEditError {
   }
 }
 
-export class ReprocessError extends ArkeEditError {
-  constructor(message: string, batchId?: string) {
-    super(message, 'REPROCESS_ERROR', { batchId });
+export class MergeConflictError extends ArkeEditError {
+  constructor(
+    pi: string,
+    remoteTip: string,
+    public conflicts: ComponentConflict[]
+  ) {
+    super(
+      `Merge conflict: edits to ${conflicts.map((c) => c.componentName).join(', ')} ` +
+        `conflict with changes saved to entity ${pi}`,
+      'MERGE_CONFLICT',
+      { pi, remoteTip, conflicts }
+    );
+    this.name = 'MergeConflictError';
+  }
+}
+
+/**
+ * A batch rollback that failed partway, after rolling back some entities
+ */
+export class BatchRollbackError extends ArkeEditError {
+  constructor(
+    batchId: string,
+    pi: string,
+    public rolledBack: SaveResult[],
+    cause: unknown
+  ) {
+    super(
+      `Rollback of batch ${batchId} failed at entity ${pi} after rolling back ${rolledBack.length} ` +
+        `entit${rolledBack.length === 1 ? 'y' : 'ies'}: ${cause instanceof Error ? cause.message : String(cause)}`,
+      'BATCH_ROLLBACK_ERROR',
+      { batchId, pi, rolledBack, cause }
+    );
+    this.name = 'BatchRollbackError';
+  }
+}
+
+export class CancelledError extends ArkeEditError {
+  constructor(reason?: unknown) {
+    super('Operation cancelled', 'CANCELLED', { reason });
+    this.name = 'CancelledError';
+  }
+}
+
+// ============================================================================
+// HTTP Errors
+// ============================================================================
+
+export interface HttpErrorDetails {
+  operation?: ArkeOperation;
+  url?: string; // Unset for errors raised without a request
+  method?: string;
+  status?: number;
+  statusText?: string;
+  responseBody?: string; // Excerpt of the response body
+  requestId?: string; // From x-request-id (or equivalent) response header
+}
+
+/**
+ * A failed HTTP exchange with an Arke service
+ */
+export class ArkeHttpError extends ArkeEditError {
+  readonly operation?: ArkeOperation;
+  readonly url?: string;
+  readonly method?: string;
+  readonly status?: number;
+  readonly responseBody?: string;
+  readonly requestId?: string;
+
+  constructor(message: string, code: string, http: HttpErrorDetails, details?: Record<string, unknown>) {
+    super(message, code, { ...details, ...http });
+    this.name = 'ArkeHttpError';
+    this.operation = http.operation;
+    this.url = http.url;
+    this.method = http.method;
+    this.status = http.status;
+    this.responseBody = http.responseBody;
+    this.requestId = http.requestId;
+  }
+}
+
+export class AuthenticationError extends ArkeHttpError {
+  constructor(message: string, http: HttpErrorDetails) {
+    super(message, 'AUTHENTICATION_ERROR', http);
+    this.name = 'AuthenticationError';
+  }
+}
+
+export class AuthorizationError extends ArkeHttpError {
+  constructor(message: string, http: HttpErrorDetails) {
+    super(message, 'AUTHORIZATION_ERROR', http);
+    this.name = 'AuthorizationError';
+  }
+}
+
+export class RateLimitError extends ArkeHttpError {
+  constructor(
+    message: string,
+    http: HttpErrorDetails,
+    public retryAfterMs?: number
+  ) {
+    super(message, 'RATE_LIMITED', http, { retryAfterMs });
+    this.name = 'RateLimitError';
+  }
+}
+
+export class PayloadTooLargeError extends ArkeHttpError {
+  constructor(message: string, http: HttpErrorDetails) {
+    super(message, 'PAYLOAD_TOO_LARGE', http);
+    this.name = 'PayloadTooLargeError';
+  }
+}
+
+export class ServiceUnavailableError extends ArkeHttpError {
+  constructor(
+    message: string,
+    http: HttpErrorDetails,
+    public retryAfterMs?: number
+  ) {
+    super(message, 'SERVICE_UNAVAILABLE', http, { retryAfterMs });
+    this.name = 'ServiceUnavailableError';
+  }
+}
+
+export class NetworkError extends ArkeHttpError {
+  constructor(message: string, http: HttpErrorDetails, cause?: unknown) {
+    super(message, 'NETWORK_ERROR', http, { cause });
+    this.name = 'NetworkError';
+  }
+}
+
+export class ReprocessError extends ArkeHttpError {
+  readonly batchId?: string;
+
+  /**
+   * @param http - Request metadata; optional so `new ReprocessError(message, batchId)` still works
+   */
+  constructor(message: string, batchId?: string, http?: HttpErrorDetails) {
+    super(message, 'REPROCESS_ERROR', http ?? {}, { batchId });
     this.name = 'ReprocessError';
+    this.batchId = batchId;
+  }
+}
+
+export class MalformedResponseError extends ArkeHttpError {
+  constructor(message: string, http: HttpErrorDetails) {
+    super(message, 'MALFORMED_RESPONSE', http);
+    this.name = 'MalformedResponseError';
   }
 }
 